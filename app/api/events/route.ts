@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { getOwnerId } from '@/lib/auth';
+import { eventLog, hasEventLogToken, isAuditEventType } from '@/lib/eventLog';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Reads the audit log (see lib/eventLog.ts):
+// GET /api/events?room=...&type=file.uploaded,file.deleted&after=<event id>&limit=<n>
+// Room admins read their own room's events. With the EVENT_LOG_TOKEN as bearer
+// token, any room can be read, and leaving out `room` reads all of them.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const operator = hasEventLogToken(request);
+
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+    if (!operator && !fileStore.isRoomAdmin(roomId, getOwnerId(request))) {
+      return NextResponse.json({ error: 'Only a room admin can read the room\'s events' }, { status: 403 });
+    }
+
+    const types = searchParams.get('type')?.split(',').filter(Boolean);
+    const unknownType = types?.find(type => !isAuditEventType(type));
+    if (unknownType !== undefined) {
+      return NextResponse.json({ error: `Unknown event type "${unknownType}"` }, { status: 400 });
+    }
+
+    const after = searchParams.has('after') ? Number(searchParams.get('after')) : undefined;
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIMIT;
+    if ((after !== undefined && !(Number.isInteger(after) && after >= 0)) ||
+      !(Number.isInteger(limit) && limit >= 1 && limit <= MAX_LIMIT)) {
+      return NextResponse.json({ error: `Invalid after or limit (up to ${MAX_LIMIT})` }, { status: 400 });
+    }
+
+    return NextResponse.json(eventLog.query({
+      roomId: operator && !searchParams.has('room') ? undefined : roomId,
+      types: types?.filter(isAuditEventType),
+      after,
+      limit,
+    }));
+  } catch (error) {
+    console.error('Error reading events:', error);
+    return NextResponse.json({ error: 'Failed to read events' }, { status: 500 });
+  }
+}
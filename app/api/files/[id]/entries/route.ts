@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, checkFileAccess, getAccessGrants } from '@/lib/access';
+import { readZipDirectory, ZipFormatError, ArchiveListing } from '@/lib/zip';
+import { readApkInfo, ApkInfo } from '@/lib/apk';
+
+// Listings this long are cut off (the total is still reported)
+const MAX_LISTED_ENTRIES = 1000;
+
+// Lists the entries of a ZIP-based file (ZIP, APK, JAR, ...) for previews,
+// plus the package details for APKs. Doesn't count as a download.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const file = await fileStore.getFile(roomId, id);
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    checkFileAccess(getAccessGrants(request), file);
+    // Same rule as thumbnails: a listing would reveal content without using up a download
+    if (file.maxDownloads !== null) {
+      return NextResponse.json({ error: 'Files with a download limit have no preview' }, { status: 403 });
+    }
+
+    const directory = readZipDirectory(file.data);
+    const listing: ArchiveListing & { apk: ApkInfo | null } = {
+      entries: directory.slice(0, MAX_LISTED_ENTRIES).map(entry => ({
+        name: entry.name,
+        size: entry.size,
+        compressedSize: entry.compressedSize,
+        modifiedAt: entry.modifiedAt,
+        directory: entry.directory,
+      })),
+      totalEntries: directory.length,
+      truncated: directory.length > MAX_LISTED_ENTRIES,
+      apk: readApkInfo(file.data, directory),
+    };
+
+    return NextResponse.json(listing, { headers: { 'Cache-Control': 'private, no-cache' } });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    if (error instanceof ZipFormatError) {
+      return NextResponse.json({ error: `Not a readable ZIP archive: ${error.message}` }, { status: 415 });
+    }
+    console.error('Error listing archive:', error);
+    return NextResponse.json({ error: 'Failed to list archive' }, { status: 500 });
+  }
+}
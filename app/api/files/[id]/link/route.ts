@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, PermissionError } from '@/lib/fileStore';
+import { getRoomId, sharePath } from '@/lib/rooms';
+import { getOwnerId } from '@/lib/auth';
+import { createAccessToken } from '@/lib/access';
+import { MAX_TTL_SECONDS } from '@/lib/expiry';
+
+// Creates a signed share link: POST /api/files/[id]/link?room=... with { ttlSeconds }.
+// Anyone with the link can open the file until it expires, without the file or
+// room password, so only the uploader and room admins may create one.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const ttlSeconds = body?.ttlSeconds;
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 60 || ttlSeconds > MAX_TTL_SECONDS) {
+      return NextResponse.json({ error: `ttlSeconds must be between 60 and ${MAX_TTL_SECONDS}` }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const file = await fileStore.getFileInfo(roomId, id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    const ownerId = getOwnerId(request);
+    if (file.ownerId !== ownerId && !fileStore.isRoomAdmin(roomId, ownerId)) {
+      throw new PermissionError('Only the uploader or a room admin can create share links');
+    }
+
+    const { token, expiresAt } = createAccessToken(`link:${file.id}`, ttlSeconds);
+    return NextResponse.json({ path: sharePath(file.id, roomId, token), token, expiresAt }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Error creating share link:', error);
+    return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, checkFileAccess, getAccessGrants } from '@/lib/access';
+import { serveStoredFile } from '@/lib/download';
+
+// Serves the stored bytes directly (see serveStoredFile in lib/download.ts)
+async function serveFile(
+  request: NextRequest,
+  params: Promise<{ id: string }>,
+  includeBody: boolean
+) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const file = await fileStore.getFileInfo(roomId, id);
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    checkFileAccess(getAccessGrants(request), file);
+
+    return await serveStoredFile(request, file, includeBody);
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('Error serving file:', error);
+    return NextResponse.json({ error: 'Failed to fetch file' }, { status: 500 });
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return serveFile(request, params, true);
+}
+
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return serveFile(request, params, false);
+}
@@ -1,28 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fileStore } from '@/lib/fileStore';
+import { fileStore, toFileMetadata } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, canReadFile, checkFileAccess, checkRoomAccess, getAccessGrants, hasShareLink } from '@/lib/access';
+
+// With ?meta=1 only the file's metadata is returned, without using up a
+// download - the share page (app/f/[id]) looks files up this way. Like in the
+// file list, password-protected files are listed with `requiresPassword`.
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
     const { id } = await params;
-    const file = fileStore.getFile(id);
+    const grants = getAccessGrants(request);
+
+    if (request.nextUrl.searchParams.get('meta') === '1') {
+      const info = await fileStore.getFileInfo(roomId, id);
+      if (!info) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 });
+      }
+      if (!hasShareLink(grants, info.id)) {
+        checkRoomAccess(grants, roomId);
+      }
+      return NextResponse.json({ file: toFileMetadata(info, grants.ownerId, canReadFile(grants, info)) });
+    }
+
+    const file = await fileStore.getFile(roomId, id);
 
     if (!file) {
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
+    checkFileAccess(grants, file);
 
-    // Return the file data (base64 data URL)
+    // The download limit may have been used up since the file was looked up
+    if (!(await fileStore.recordDownload(file))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    // Return the file data as a base64 data URL. Kept for backwards
+    // compatibility - new clients should use /api/files/[id]/raw instead.
     return NextResponse.json({
       id: file.id,
       name: file.name,
       size: file.size,
       type: file.type,
-      data: file.data,
+      data: `data:${file.type};base64,${file.data.toString('base64')}`,
       uploadedAt: file.uploadedAt,
     });
   } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
     console.error('Error fetching file:', error);
     return NextResponse.json({ error: 'Failed to fetch file' }, { status: 500 });
   }
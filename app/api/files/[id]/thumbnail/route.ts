@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, PermissionError } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { getOwnerId } from '@/lib/auth';
+import { etagMatches, toResponseBody } from '@/lib/download';
+import { createThumbnail, MAX_POSTER_BYTES, THUMBNAIL_TYPE } from '@/lib/thumbnails';
+import { formatLimit } from '@/lib/limits';
+import { readLimitedBody } from '@/lib/requestBody';
+import { AccessError, checkFileAccess, getAccessGrants } from '@/lib/access';
+
+// Serves the small preview image used by the file grid (see lib/thumbnails.ts).
+// Unlike /raw, this never counts as a download.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const info = await fileStore.getFileInfo(roomId, id);
+    if (info) {
+      checkFileAccess(getAccessGrants(request), info);
+    }
+    const thumbnail = await fileStore.getThumbnail(roomId, id);
+
+    if (!thumbnail) {
+      return NextResponse.json({ error: 'Thumbnail not found' }, { status: 404 });
+    }
+
+    // A video poster can be replaced, so the ETag follows the content
+    const etag = `"${createHash('sha1').update(thumbnail).digest('hex').slice(0, 16)}"`;
+    const headers = new Headers({
+      'Content-Type': THUMBNAIL_TYPE,
+      'Cache-Control': 'private, no-cache',
+      ETag: etag,
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    if (etagMatches(request.headers.get('if-none-match'), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    headers.set('Content-Length', thumbnail.length.toString());
+    return new Response(toResponseBody(thumbnail), { status: 200, headers });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('Error serving thumbnail:', error);
+    return NextResponse.json({ error: 'Failed to fetch thumbnail' }, { status: 500 });
+  }
+}
+
+// Sets the thumbnail from an image in the request body. Used for videos, whose
+// poster frame is captured by the uploader's browser. Only the uploader or a room admin may set it.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const data = await readLimitedBody(request, MAX_POSTER_BYTES);
+    if (!data) {
+      return NextResponse.json(
+        { error: `Thumbnails are limited to ${formatLimit(MAX_POSTER_BYTES)}` },
+        { status: 413 }
+      );
+    }
+
+    const { id } = await params;
+    const ownerId = getOwnerId(request);
+    if (!(await fileStore.getThumbnailTarget(roomId, id, ownerId))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    // Re-encoded so only a decodable, downscaled image is ever served back
+    const thumbnail = await createThumbnail(data);
+    if (!thumbnail) {
+      return NextResponse.json({ error: 'Not a supported image' }, { status: 415 });
+    }
+
+    if (!(await fileStore.putThumbnail(roomId, id, ownerId, thumbnail))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Thumbnail saved' });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Error saving thumbnail:', error);
+    return NextResponse.json({ error: 'Failed to save thumbnail' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, checkRoomAccess, createAccessToken, getAccessGrants, setAccessCookie } from '@/lib/access';
+import { verifyPassword } from '@/lib/passwords';
+
+// Unlocks a password-protected file. Body: { password }. On success the access
+// token is set as a cookie and also returned, for clients that send it as a
+// Bearer token instead.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+    checkRoomAccess(getAccessGrants(request), roomId);
+
+    const { id } = await params;
+    const file = await fileStore.getFileInfo(roomId, id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    if (file.passwordHash === null) {
+      return NextResponse.json({ error: 'File is not password protected' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.password !== 'string' || !(await verifyPassword(body.password, file.passwordHash))) {
+      return NextResponse.json({ error: 'Wrong password' }, { status: 401 });
+    }
+
+    const { token, expiresAt } = createAccessToken(`file:${file.id}`);
+    const response = NextResponse.json({ token, expiresAt });
+    setAccessCookie(request, response, `file:${file.id}`, token);
+    return response;
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('Error unlocking file:', error);
+    return NextResponse.json({ error: 'Failed to unlock file' }, { status: 500 });
+  }
+}
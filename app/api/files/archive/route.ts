@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { contentDisposition } from '@/lib/download';
+import { createZipStream, sanitizeZipPath, uniqueZipPath, ZipEntry } from '@/lib/zip';
+import { normalizeFolderPath, isInFolder, folderOf } from '@/lib/folders';
+import type { StoredFileInfo } from '@/lib/storage';
+import { AccessError, canReadFile, checkRoomAccess, getAccessGrants } from '@/lib/access';
+
+// Entries keep their folders, relative to `baseFolder`
+async function* archiveEntries(roomId: string, files: StoredFileInfo[], baseFolder: string): AsyncGenerator<ZipEntry> {
+  const usedPaths = new Set<string>();
+  for (const info of files) {
+    // Files removed or expired since the request started are left out
+    const file = await fileStore.getFile(roomId, info.id);
+    if (!file || !(await fileStore.recordDownload(file))) continue;
+    const path = baseFolder ? file.path.slice(baseFolder.length + 1) : file.path;
+    yield {
+      name: uniqueZipPath(sanitizeZipPath(path ? `${path}/${file.name}` : file.name), usedPaths),
+      modifiedAt: file.uploadedAt,
+      data: file.data,
+    };
+  }
+}
+
+// Downloads several files as one ZIP archive, streamed as it's built one file
+// at a time: ?ids=a,b,c (or repeated ?id=) picks files, ?folder=path takes
+// everything in a folder and its subfolders, and without either the whole room
+// is included. End-to-end encrypted files are never included, nor password
+// protected ones the requester hasn't unlocked. Like any other download, each
+// included file counts against its download limit.
+export async function GET(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const grants = getAccessGrants(request);
+    checkRoomAccess(grants, roomId);
+
+    const { searchParams } = new URL(request.url);
+    const ids = [
+      ...searchParams.getAll('id'),
+      ...searchParams.getAll('ids').flatMap(value => value.split(',')),
+    ].map(id => id.trim()).filter(Boolean);
+
+    const folder = normalizeFolderPath(searchParams.get('folder'));
+    if (folder === null) {
+      return NextResponse.json({ error: 'Invalid folder' }, { status: 400 });
+    }
+
+    // Encrypted files would only be ciphertext in the archive, the page downloads them one by one
+    const roomFiles = (await fileStore.getAllFiles(roomId))
+      .filter(file => file.encryptedMeta === null && canReadFile(grants, file) && isInFolder(file.path, folder));
+    let selected: StoredFileInfo[];
+    if (ids.length > 0) {
+      const byId = new Map(roomFiles.map(file => [file.id, file]));
+      const missing = ids.filter(id => !byId.has(id));
+      if (missing.length > 0) {
+        return NextResponse.json({ error: `Files not found: ${missing.join(', ')}` }, { status: 404 });
+      }
+      selected = Array.from(new Set(ids), id => byId.get(id)!);
+    } else {
+      selected = roomFiles.sort((a, b) => a.path.localeCompare(b.path) || a.uploadedAt - b.uploadedAt);
+    }
+
+    if (selected.length === 0) {
+      return NextResponse.json({ error: 'No files to download' }, { status: 404 });
+    }
+
+    // A folder's archive contains the folder itself, like zipping it on disk would
+    const baseFolder = folderOf(folder);
+    const archiveName = folder ? folder.slice(baseFolder ? baseFolder.length + 1 : 0) : `${roomId}-files`;
+
+    return new Response(createZipStream(archiveEntries(roomId, selected, baseFolder)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': contentDisposition(`${archiveName}.zip`, 'attachment'),
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('Error creating archive:', error);
+    return NextResponse.json({ error: 'Failed to create archive' }, { status: 500 });
+  }
+}
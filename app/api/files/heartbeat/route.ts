@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { getOwnerId } from '@/lib/auth';
+
+// Open pages call this periodically; files uploaded with "until I disconnect"
+// expire once their uploader stops sending heartbeats.
+export async function POST(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const ownerId = getOwnerId(request);
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+
+    fileStore.touchOwner(roomId, ownerId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Error recording heartbeat:', error);
+    return NextResponse.json({ error: 'Failed to record heartbeat' }, { status: 500 });
+  }
+}
@@ -1,51 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fileStore } from '@/lib/fileStore';
+import { fileStore, uploadLimits, toFileMetadata, PermissionError } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { getClientIp, getOwnerId } from '@/lib/auth';
+import { LimitError } from '@/lib/limits';
+import { AccessError, canReadFile, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { storeMultipartUpload } from '@/lib/multipartUpload';
+import { UploadError } from '@/lib/uploadSessions';
 
 export async function POST(request: NextRequest) {
     try {
-        const formData = await request.formData();
-        const files = formData.getAll('files') as File[];
-        const sessionId = formData.get('sessionId') as string;
-
-        if (!files || files.length === 0) {
-            return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+        const roomId = getRoomId(request);
+        if (!roomId) {
+            return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
         }
 
-        // Set uploader session ID
-        if (sessionId) {
-            fileStore.setUploaderSession(sessionId);
-        }
-
-        const uploadedFiles = [];
-
-        for (const file of files) {
-            // Convert file to base64 (stored in memory only, not on disk)
-            const arrayBuffer = await file.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-            const base64 = buffer.toString('base64');
-            const dataUrl = `data:${file.type};base64,${base64}`;
-
-            const storedFile = {
-                id: Math.random().toString(36).substr(2, 9) + Date.now().toString(36),
-                name: file.name,
-                size: file.size,
-                type: file.type,
-                data: dataUrl,
-                uploadedAt: Date.now(),
-            };
-
-            fileStore.addFile(storedFile);
-            uploadedFiles.push({
-                id: storedFile.id,
-                name: storedFile.name,
-                size: storedFile.size,
-                type: storedFile.type,
-                uploadedAt: storedFile.uploadedAt,
-            });
+        const ownerId = getOwnerId(request);
+        if (!ownerId) {
+            return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
         }
+        checkRoomAccess(getAccessGrants(request), roomId);
 
+        const uploadedFiles = await storeMultipartUpload(request, roomId, ownerId);
         return NextResponse.json({ files: uploadedFiles, message: 'Files uploaded successfully' });
     } catch (error) {
+        if (error instanceof LimitError || error instanceof AccessError) {
+            return NextResponse.json(error.toJSON(), { status: error.status });
+        }
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Error uploading file:', error);
         return NextResponse.json({ error: 'Failed to upload files' }, { status: 500 });
     }
@@ -53,36 +36,30 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const sessionId = searchParams.get('sessionId');
-        const isInitialLoad = searchParams.get('initial') === 'true';
-
-        // Only check on initial load to avoid clearing on every poll
-        if (isInitialLoad && sessionId) {
-            const cleared = fileStore.clearIfUploaderRefreshed(sessionId);
-            if (cleared) {
-                return NextResponse.json({ files: [], cleared: true });
-            }
+        const roomId = getRoomId(request);
+        if (!roomId) {
+            return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
         }
 
-        const files = fileStore.getAllFiles();
+        const ownerId = getOwnerId(request);
+        const grants = getAccessGrants(request);
+        checkRoomAccess(grants, roomId);
 
         // Return file metadata without the actual data (to reduce response size)
-        const fileList = files.map(file => ({
-            id: file.id,
-            name: file.name,
-            size: file.size,
-            type: file.type,
-            uploadedAt: file.uploadedAt,
-        }));
-
-        const uploaderSessionId = fileStore.getUploaderSession();
+        const fileList = (await fileStore.getAllFiles(roomId))
+            .map(file => toFileMetadata(file, ownerId, canReadFile(grants, file)));
 
         return NextResponse.json({
+            roomId,
             files: fileList,
-            uploaderSessionId: uploaderSessionId
+            isRoomAdmin: fileStore.isRoomAdmin(roomId, ownerId),
+            storage: fileStore.getStorageInfo(),
+            limits: uploadLimits,
         });
     } catch (error) {
+        if (error instanceof AccessError) {
+            return NextResponse.json(error.toJSON(), { status: error.status });
+        }
         console.error('Error fetching files:', error);
         return NextResponse.json({ error: 'Failed to fetch files' }, { status: 500 });
     }
@@ -90,17 +67,31 @@ export async function GET(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
     try {
+        const roomId = getRoomId(request);
+        if (!roomId) {
+            return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+        }
+
+        const ownerId = getOwnerId(request);
         const { searchParams } = new URL(request.url);
         const id = searchParams.get('id');
 
         if (id) {
-            fileStore.removeFile(id);
+            await fileStore.removeFile(roomId, id, ownerId, getClientIp(request));
             return NextResponse.json({ message: 'File deleted successfully' });
+        } else if (searchParams.get('mine') === 'true') {
+            if (ownerId) {
+                await fileStore.removeOwnFiles(roomId, ownerId, getClientIp(request));
+            }
+            return NextResponse.json({ message: 'Your files were cleared successfully' });
         } else {
-            fileStore.clearAll();
+            await fileStore.clearAll(roomId, ownerId, getClientIp(request));
             return NextResponse.json({ message: 'All files cleared successfully' });
         }
     } catch (error) {
+        if (error instanceof PermissionError) {
+            return NextResponse.json({ error: error.message }, { status: 403 });
+        }
         console.error('Error deleting file:', error);
         return NextResponse.json({ error: 'Failed to delete file' }, { status: 500 });
     }
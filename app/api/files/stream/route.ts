@@ -1,26 +1,182 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fileStore } from '@/lib/fileStore';
+import { fileStore, toFileMetadata, FileStoreEvent } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, AccessGrants, canReadFile, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { isValidPeerId, PeerEvent, signalingHub, SignalingError } from '@/lib/signaling';
+import { getDevice } from '@/lib/devices';
 
-// Simple polling endpoint instead of SSE for better compatibility
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies and idle timeouts from dropping the connection
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Tells EventSource how long to wait before reconnecting
+const RECONNECT_DELAY_MS = 3000;
+
+async function getSnapshot(roomId: string, grants: AccessGrants) {
+  return {
+    roomId,
+    files: (await fileStore.getAllFiles(roomId)).map(file => toFileMetadata(file, grants.ownerId, canReadFile(grants, file))),
+    isRoomAdmin: fileStore.isRoomAdmin(roomId, grants.ownerId),
+    storage: fileStore.getStorageInfo(),
+    peerFiles: signalingHub.getFiles(roomId),
+    devices: signalingHub.getDevices(roomId),
+  };
+}
+
+function formatEvent(type: string, id: number, data: unknown) {
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// File details are rendered per viewer, since ownership and unlocked files
+// differ between clients. Files unlocked after connecting are tracked by the client.
+function formatStoreEvent(event: FileStoreEvent, grants: AccessGrants) {
+  if (event.type === 'file-added' || event.type === 'file-updated') {
+    return formatEvent(event.type, event.id, {
+      file: toFileMetadata(event.file, grants.ownerId, canReadFile(grants, event.file)),
+    });
+  }
+  const { id, type, ...data } = event;
+  return formatEvent(type, id, data);
+}
+
+// Peer events aren't replayed on reconnect, so they carry no ID and leave Last-Event-ID alone
+function formatPeerEvent(event: PeerEvent) {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Server-Sent Events push channel. Clients that don't ask for
+// text/event-stream (the polling fallback) get a JSON snapshot instead.
+// With `?peer=<id>` the connection also carries peer-to-peer signaling (see
+// lib/signaling.ts) and shows up in the room's presence list; polling clients
+// get their pending signals in the snapshot.
 export async function GET(request: NextRequest) {
+  const roomId = getRoomId(request);
+  if (!roomId) {
+    return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+  }
+  const peerId = request.nextUrl.searchParams.get('peer');
+  if (peerId !== null && !isValidPeerId(peerId)) {
+    return NextResponse.json({ error: 'Invalid peer' }, { status: 400 });
+  }
+
+  // Checked once per connection - a token expiring later doesn't end the stream
+  const grants = getAccessGrants(request);
   try {
-    const files = fileStore.getAllFiles();
-    const fileList = files.map(file => ({
-      id: file.id,
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      uploadedAt: file.uploadedAt,
-    }));
-
-    const uploaderSessionId = fileStore.getUploaderSession();
-
-    return NextResponse.json({ 
-      files: fileList,
-      uploaderSessionId: uploaderSessionId 
-    });
+    checkRoomAccess(grants, roomId);
   } catch (error) {
-    console.error('Error in stream endpoint:', error);
-    return NextResponse.json({ error: 'Failed to get files' }, { status: 500 });
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    throw error;
+  }
+
+  const accept = request.headers.get('accept') || '';
+  if (!accept.includes('text/event-stream')) {
+    try {
+      const signals = peerId && grants.ownerId
+        ? signalingHub.poll(roomId, peerId, grants.ownerId, getDevice(request)).flatMap(event => event.type === 'signal' ? [{ from: event.from, data: event.data }] : [])
+        : [];
+      return NextResponse.json({ ...(await getSnapshot(roomId, grants)), signals });
+    } catch (error) {
+      if (error instanceof SignalingError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error('Error in stream endpoint:', error);
+      return NextResponse.json({ error: 'Failed to get files' }, { status: 500 });
+    }
   }
+
+  const lastEventIdHeader = request.headers.get('last-event-id');
+  const lastEventId = lastEventIdHeader ? parseInt(lastEventIdHeader, 10) : NaN;
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      // Subscribe before reading the snapshot so nothing that changes meanwhile
+      // is lost. Events are queued until the snapshot is out; replaying an
+      // event the snapshot already contains is harmless on the client.
+      let queue: string[] | null = [];
+      const sendOrQueue = (chunk: string) => {
+        if (queue) {
+          queue.push(chunk);
+        } else {
+          send(chunk);
+        }
+      };
+      const unsubscribe = fileStore.addListener(roomId, event => sendOrQueue(formatStoreEvent(event, grants)));
+
+      let disconnectPeer: (() => void) | null = null;
+      if (peerId && grants.ownerId) {
+        try {
+          disconnectPeer = signalingHub.connect(roomId, peerId, grants.ownerId, getDevice(request), event => sendOrQueue(formatPeerEvent(event)));
+        } catch (error) {
+          // The page still works, just without direct transfers
+          console.error('Error connecting peer:', error);
+        }
+      }
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      // Resume from Last-Event-ID when possible, otherwise start with a full snapshot
+      const missed = Number.isNaN(lastEventId) ? null : fileStore.getEventsSince(roomId, lastEventId);
+      if (missed) {
+        missed.forEach(event => send(formatStoreEvent(event, grants)));
+        // Offers and presence aren't in the event history, so the client gets the current ones
+        send(`event: peer-files\ndata: ${JSON.stringify({ files: signalingHub.getFiles(roomId) })}\n\n`);
+        send(formatPeerEvent({ type: 'presence', devices: signalingHub.getDevices(roomId) }));
+      } else {
+        const snapshotEventId = fileStore.getLastEventId(roomId);
+        try {
+          send(formatEvent('snapshot', snapshotEventId, await getSnapshot(roomId, grants)));
+        } catch (error) {
+          console.error('Error in stream endpoint:', error);
+        }
+      }
+
+      queue.forEach(send);
+      queue = null;
+
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        cleanup = null;
+        clearInterval(heartbeat);
+        unsubscribe();
+        disconnectPeer?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup?.());
+      // The client may have gone away while the snapshot was being read
+      if (request.signal.aborted) cleanup();
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
 }
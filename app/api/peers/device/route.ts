@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerId } from '@/lib/auth';
+import { DEVICE_COOKIE, DEVICE_COOKIE_MAX_AGE, DeviceInfo, detectDeviceType, normalizeDeviceName } from '@/lib/devices';
+import { signalingHub } from '@/lib/signaling';
+
+// Renames this browser's device: PUT /api/peers/device with { name }.
+// Saved in the device cookie for later uploads, and shown right away in the
+// presence list of every room the browser has open (see lib/devices.ts).
+export async function PUT(request: NextRequest) {
+  try {
+    const ownerId = getOwnerId(request);
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = normalizeDeviceName(body?.name);
+    if (!name) {
+      return NextResponse.json({ error: 'Invalid device name' }, { status: 400 });
+    }
+
+    const device: DeviceInfo = { name, type: detectDeviceType(request.headers.get('user-agent')) };
+    signalingHub.updateDevice(ownerId, device);
+
+    const response = NextResponse.json({ device });
+    response.cookies.set(DEVICE_COOKIE, name, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: DEVICE_COOKIE_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error renaming device:', error);
+    return NextResponse.json({ error: 'Failed to rename device' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { isValidPeerId, signalingHub, SignalingError } from '@/lib/signaling';
+import { isEncryptedMetadata } from '@/lib/e2e';
+
+// Files offered for direct transfer. The server only keeps the name, size and
+// type - the bytes stay in the sender's browser (see lib/signaling.ts). In
+// encrypted rooms, the name and type are only in encryptedMeta.
+
+// POST /api/peers/files?room=... with { peerId, name, size, type, encryptedMeta? }
+export async function POST(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+    const grants = getAccessGrants(request);
+    checkRoomAccess(grants, roomId);
+    if (!grants.ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const peerId = body?.peerId;
+    const name = body?.name;
+    const size = body?.size;
+    if (!isValidPeerId(peerId)) {
+      return NextResponse.json({ error: 'Invalid peer' }, { status: 400 });
+    }
+    if (typeof name !== 'string' || !name || name.length > 255 || !Number.isSafeInteger(size) || size < 0) {
+      return NextResponse.json({ error: 'name and size are required' }, { status: 400 });
+    }
+    const encryptedMeta = body.encryptedMeta ?? null;
+    if (encryptedMeta !== null && !isEncryptedMetadata(encryptedMeta)) {
+      return NextResponse.json({ error: 'Invalid encryptedMeta' }, { status: 400 });
+    }
+    const type = encryptedMeta === null && typeof body.type === 'string' && body.type.length <= 255 ? body.type : '';
+
+    const file = signalingHub.offerFile(roomId, peerId, grants.ownerId, {
+      name,
+      size,
+      type: type || 'application/octet-stream',
+      encryptedMeta,
+    });
+    return NextResponse.json({ file }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    if (error instanceof SignalingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error offering file:', error);
+    return NextResponse.json({ error: 'Failed to offer file' }, { status: 500 });
+  }
+}
+
+// DELETE /api/peers/files?room=...&id=...
+export async function DELETE(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    const id = request.nextUrl.searchParams.get('id');
+    if (!roomId || !id) {
+      return NextResponse.json({ error: 'Expected room and id' }, { status: 400 });
+    }
+    const grants = getAccessGrants(request);
+    checkRoomAccess(grants, roomId);
+    if (!grants.ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+
+    signalingHub.withdrawFile(roomId, id, grants.ownerId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    if (error instanceof SignalingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error withdrawing file:', error);
+    return NextResponse.json({ error: 'Failed to withdraw file' }, { status: 500 });
+  }
+}
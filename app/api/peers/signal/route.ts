@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomId } from '@/lib/rooms';
+import { AccessError, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { isValidPeerId, MAX_SIGNAL_LENGTH, signalingHub, SignalingError } from '@/lib/signaling';
+
+// Relays a WebRTC signaling message: POST /api/peers/signal?room=... with
+// { from, to, data }. The recipient gets it over its push channel (or its next poll).
+export async function POST(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+    const grants = getAccessGrants(request);
+    checkRoomAccess(grants, roomId);
+    if (!grants.ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+
+    const text = await request.text();
+    if (text.length > MAX_SIGNAL_LENGTH) {
+      return NextResponse.json({ error: 'Signal too large' }, { status: 413 });
+    }
+    let body;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+    if (!isValidPeerId(body?.from) || !isValidPeerId(body.to) || body.data === undefined) {
+      return NextResponse.json({ error: 'Expected { from, to, data }' }, { status: 400 });
+    }
+
+    signalingHub.send(roomId, body.from, grants.ownerId, body.to, body.data);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    if (error instanceof SignalingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error relaying signal:', error);
+    return NextResponse.json({ error: 'Failed to relay signal' }, { status: 500 });
+  }
+}
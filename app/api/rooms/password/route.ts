@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, PermissionError } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { getOwnerId } from '@/lib/auth';
+import { hashPassword, isValidPassword } from '@/lib/passwords';
+
+// Sets the room password: PUT /api/rooms/password?room=... with { password },
+// or { password: null } to remove it. Room admins only.
+export async function PUT(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const password = body?.password ?? null;
+    if (password !== null && !isValidPassword(password)) {
+      return NextResponse.json({ error: 'Invalid password' }, { status: 400 });
+    }
+
+    const ownerId = getOwnerId(request);
+    // Checked before hashing, so nobody else can make the server do the slow work
+    if (!fileStore.isRoomAdmin(roomId, ownerId)) {
+      throw new PermissionError('Only a room admin can change the room password');
+    }
+    await fileStore.setRoomPassword(roomId, ownerId, password === null ? null : await hashPassword(password));
+
+    return NextResponse.json({ passwordProtected: password !== null });
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error('Error setting room password:', error);
+    return NextResponse.json({ error: 'Failed to set room password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getOwnerId } from '@/lib/auth';
+import { DEFAULT_ROOM_ID, isValidRoomId, normalizeRoomId } from '@/lib/rooms';
+import { hashPassword, isValidPassword } from '@/lib/passwords';
+
+// Creates a room and makes the caller its admin. Without a roomId in the body,
+// a random room name is picked. An optional password protects the new room.
+// A room others already have files in or are connected to can't be claimed.
+// Claiming a room the caller already is admin of only changes its password if
+// one is sent.
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = getOwnerId(request);
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const requestedRoomId = typeof body?.roomId === 'string' ? normalizeRoomId(body.roomId) : null;
+    const password = body?.password ?? null;
+    if (password !== null && !isValidPassword(password)) {
+      return NextResponse.json({ error: 'Invalid password' }, { status: 400 });
+    }
+
+    if (requestedRoomId !== null) {
+      if (!isValidRoomId(requestedRoomId)) {
+        return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+      }
+      if (requestedRoomId === DEFAULT_ROOM_ID) {
+        return NextResponse.json({ error: 'The public room cannot be claimed' }, { status: 403 });
+      }
+      const claim = await fileStore.claimRoom(requestedRoomId, ownerId);
+      if (claim === 'has-admin') {
+        return NextResponse.json({ error: 'Room already has an admin' }, { status: 409 });
+      }
+      if (claim === 'in-use') {
+        return NextResponse.json({ error: 'Others are already using this room' }, { status: 409 });
+      }
+      // Hashed only once the claim went through, so refused claims cost no hashing
+      if (password !== null) {
+        await fileStore.setRoomPassword(requestedRoomId, ownerId, await hashPassword(password));
+      }
+      return NextResponse.json(
+        { roomId: requestedRoomId, isRoomAdmin: true },
+        { status: claim === 'already-admin' ? 200 : 201 }
+      );
+    }
+
+    const roomId = await fileStore.claimRandomRoom(ownerId);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Could not find a free room name' }, { status: 503 });
+    }
+    if (password !== null) {
+      await fileStore.setRoomPassword(roomId, ownerId, await hashPassword(password));
+    }
+    return NextResponse.json({ roomId, isRoomAdmin: true }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating room:', error);
+    return NextResponse.json({ error: 'Failed to create room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { createAccessToken, setAccessCookie } from '@/lib/access';
+import { verifyPassword } from '@/lib/passwords';
+
+// Unlocks a password-protected room: POST /api/rooms/unlock?room=... with { password }.
+// Like file unlocks, the token is set as a cookie and returned.
+export async function POST(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const passwordHash = fileStore.getRoomPasswordHash(roomId);
+    if (passwordHash === null) {
+      return NextResponse.json({ error: 'Room is not password protected' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.password !== 'string' || !(await verifyPassword(body.password, passwordHash))) {
+      return NextResponse.json({ error: 'Wrong password' }, { status: 401 });
+    }
+
+    const { token, expiresAt } = createAccessToken(`room:${roomId}`);
+    const response = NextResponse.json({ token, expiresAt });
+    setAccessCookie(request, response, `room:${roomId}`, token);
+    return response;
+  } catch (error) {
+    console.error('Error unlocking room:', error);
+    return NextResponse.json({ error: 'Failed to unlock room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, uploadLimits, toFileMetadata, applyExpiryPolicy, createFileId, StoredFile } from '@/lib/fileStore';
+import { getRoomId } from '@/lib/rooms';
+import { getClientIp, getOwnerId } from '@/lib/auth';
+import { getDevice } from '@/lib/devices';
+import { parseExpiryPolicy } from '@/lib/expiry';
+import { LimitError, checkQuota, formatLimit } from '@/lib/limits';
+import { parseSnippet, MAX_SNIPPET_BYTES } from '@/lib/snippets';
+import { AccessError, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { hashPassword, isValidPassword } from '@/lib/passwords';
+import { readLimitedBody } from '@/lib/requestBody';
+
+// Shares a piece of text without saving it to a file first.
+// Body: { text, title?, language?, expiry?, password? } - see lib/snippets.ts
+export async function POST(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const ownerId = getOwnerId(request);
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+    checkRoomAccess(getAccessGrants(request), roomId);
+
+    // Oversized bodies are never read in full (JSON escaping can add some overhead)
+    const raw = await readLimitedBody(request, MAX_SNIPPET_BYTES * 2);
+    if (!raw) {
+      throw new LimitError(`Snippets are limited to ${formatLimit(MAX_SNIPPET_BYTES)}`, 413, 'file_too_large');
+    }
+
+    let body;
+    try {
+      body = JSON.parse(raw.toString('utf8'));
+    } catch {
+      body = null;
+    }
+    const snippet = parseSnippet(body);
+    if (typeof snippet === 'string') {
+      return NextResponse.json({ error: snippet }, { status: 400 });
+    }
+
+    const expiry = parseExpiryPolicy(body.expiry);
+    if (typeof expiry === 'string') {
+      return NextResponse.json({ error: expiry }, { status: 400 });
+    }
+
+    const password = body.password || null;
+    if (password !== null && !isValidPassword(password)) {
+      return NextResponse.json({ error: 'Invalid password' }, { status: 400 });
+    }
+
+    const data = Buffer.from(snippet.text, 'utf8');
+    if (data.length > MAX_SNIPPET_BYTES) {
+      throw new LimitError(`Snippets are limited to ${formatLimit(MAX_SNIPPET_BYTES)}`, 413, 'file_too_large', snippet.name);
+    }
+    checkQuota(uploadLimits, await fileStore.getUsage(ownerId), data.length, snippet.name);
+
+    const uploadedAt = Date.now();
+    const storedFile: StoredFile = {
+      id: createFileId(),
+      roomId,
+      ownerId,
+      kind: 'text',
+      language: snippet.language,
+      name: snippet.name,
+      path: '',
+      size: data.length,
+      // Always served as plain text, whatever the snippet contains
+      type: 'text/plain',
+      declaredType: 'text/plain',
+      detectedType: null,
+      hasThumbnail: false,
+      encryptedMeta: null,
+      passwordHash: password === null ? null : await hashPassword(password),
+      data,
+      uploadedAt,
+      ...applyExpiryPolicy(expiry, uploadedAt),
+      device: getDevice(request),
+    };
+
+    await fileStore.addFile(storedFile, getClientIp(request));
+
+    return NextResponse.json(
+      { file: toFileMetadata(storedFile, ownerId), message: 'Snippet shared successfully' },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof LimitError || error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('Error sharing snippet:', error);
+    return NextResponse.json({ error: 'Failed to share snippet' }, { status: 500 });
+  }
+}
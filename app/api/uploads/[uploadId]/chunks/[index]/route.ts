@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadSessions, toUploadStatus, UploadError } from '@/lib/uploadSessions';
+import { getOwnerId } from '@/lib/auth';
+import { readLimitedBody } from '@/lib/requestBody';
+
+// Receives one chunk as the raw request body. An optional X-Chunk-Checksum
+// header (SHA-256 hex) is verified before the chunk is accepted.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string; index: string }> }
+) {
+  try {
+    const { uploadId, index } = await params;
+    const session = await uploadSessions.get(uploadId);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 });
+    }
+
+    if (session.ownerId !== getOwnerId(request)) {
+      return NextResponse.json({ error: 'Upload session belongs to someone else' }, { status: 403 });
+    }
+
+    // No chunk is ever larger than the session's chunk size, so never buffer more than that
+    const data = await readLimitedBody(request, session.chunkSize);
+    if (!data) {
+      return NextResponse.json({ error: 'Chunk is larger than the chunk size' }, { status: 413 });
+    }
+
+    await uploadSessions.writeChunk(session, Number(index), data, request.headers.get('x-chunk-checksum'));
+
+    const status = toUploadStatus(session);
+    return NextResponse.json(status, {
+      headers: { 'Upload-Offset': status.offset.toString() },
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error receiving chunk:', error);
+    return NextResponse.json({ error: 'Failed to receive chunk' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, uploadLimits, toFileMetadata, applyExpiryPolicy } from '@/lib/fileStore';
+import type { StoredFileInfo } from '@/lib/storage';
+import { uploadSessions, UploadError, UploadSession } from '@/lib/uploadSessions';
+import { getClientIp, getOwnerId } from '@/lib/auth';
+import { getDevice } from '@/lib/devices';
+import { LimitError, checkFile, checkQuota } from '@/lib/limits';
+import { resolveContentType } from '@/lib/contentType';
+
+// Adds the file once its chunks are verified, see uploadSessions.complete()
+async function addUploadedFile(request: NextRequest, session: UploadSession) {
+  // Other uploads may have used up the quota since the session was started
+  try {
+    checkQuota(uploadLimits, await fileStore.getUsage(session.ownerId), session.size, session.name);
+  } catch (error) {
+    await uploadSessions.remove(session.id);
+    throw error;
+  }
+
+  const body = await request.json().catch(() => null);
+  const checksum = typeof body?.checksum === 'string' ? body.checksum : null;
+  const data = await uploadSessions.assemble(session, checksum);
+
+  // The allow/deny lists were checked on the declared type - check what the file really is too.
+  // Encrypted files can't be sniffed, they are always served as opaque bytes.
+  const types = session.encryptedMeta === null
+    ? resolveContentType(await uploadSessions.readSample(session), session.type)
+    : { type: 'application/octet-stream', declaredType: 'application/octet-stream', detectedType: null };
+  try {
+    checkFile(uploadLimits, { name: session.name, size: session.size, type: types.type });
+  } catch (error) {
+    await uploadSessions.remove(session.id);
+    throw error;
+  }
+
+  const uploadedAt = Date.now();
+  const info: StoredFileInfo = {
+    id: session.id,
+    roomId: session.roomId,
+    ownerId: session.ownerId,
+    kind: 'file',
+    language: null,
+    name: session.name,
+    path: session.path,
+    size: session.size,
+    ...types,
+    hasThumbnail: false,
+    encryptedMeta: session.encryptedMeta,
+    passwordHash: session.passwordHash,
+    uploadedAt,
+    // The lifetime starts once the upload is complete
+    ...applyExpiryPolicy(session.expiry, uploadedAt),
+    device: getDevice(request),
+  };
+
+  // Streamed from the staged chunks, the whole file is never in memory at once
+  await fileStore.addFileFromStream(info, data, getClientIp(request));
+  await uploadSessions.remove(session.id);
+
+  return NextResponse.json({ file: toFileMetadata(info, session.ownerId), message: 'File uploaded successfully' });
+}
+
+// Finalizes an upload: checks that all chunks arrived and match the checksum,
+// then adds the assembled file to the store
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const { uploadId } = await params;
+    const session = await uploadSessions.get(uploadId);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 });
+    }
+
+    if (session.ownerId !== getOwnerId(request)) {
+      return NextResponse.json({ error: 'Upload session belongs to someone else' }, { status: 403 });
+    }
+
+    // A second request for the same session is turned away while this one runs
+    return await uploadSessions.complete(session, () => addUploadedFile(request, session));
+  } catch (error) {
+    if (error instanceof LimitError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error completing upload:', error);
+    return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadSessions, toUploadStatus } from '@/lib/uploadSessions';
+import { getOwnerId } from '@/lib/auth';
+
+// Reports which chunks have arrived so an interrupted upload can resume
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const { uploadId } = await params;
+    const session = await uploadSessions.get(uploadId);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 });
+    }
+
+    if (session.ownerId !== getOwnerId(request)) {
+      return NextResponse.json({ error: 'Upload session belongs to someone else' }, { status: 403 });
+    }
+
+    const status = toUploadStatus(session);
+    return NextResponse.json(status, {
+      headers: {
+        'Upload-Offset': status.offset.toString(),
+        'Upload-Length': status.size.toString(),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching upload session:', error);
+    return NextResponse.json({ error: 'Failed to fetch upload session' }, { status: 500 });
+  }
+}
+
+// Aborts an upload and discards the chunks received so far
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const { uploadId } = await params;
+    const session = await uploadSessions.get(uploadId);
+
+    if (session && session.ownerId !== getOwnerId(request)) {
+      return NextResponse.json({ error: 'Upload session belongs to someone else' }, { status: 403 });
+    }
+
+    await uploadSessions.remove(uploadId);
+    return NextResponse.json({ message: 'Upload cancelled' });
+  } catch (error) {
+    console.error('Error cancelling upload:', error);
+    return NextResponse.json({ error: 'Failed to cancel upload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, uploadLimits } from '@/lib/fileStore';
+import { uploadSessions, toUploadStatus, UploadError } from '@/lib/uploadSessions';
+import { getRoomId } from '@/lib/rooms';
+import { getOwnerId } from '@/lib/auth';
+import { parseExpiryPolicy } from '@/lib/expiry';
+import { LimitError, addUsage, checkFile, checkQuota } from '@/lib/limits';
+import { normalizeFolderPath } from '@/lib/folders';
+import { normalizeContentType } from '@/lib/contentType';
+import { isEncryptedMetadata } from '@/lib/e2e';
+import { AccessError, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { hashPassword, isValidPassword } from '@/lib/passwords';
+
+// Starts a resumable upload session (see lib/uploadSessions.ts for the protocol)
+export async function POST(request: NextRequest) {
+  try {
+    const roomId = getRoomId(request);
+    if (!roomId) {
+      return NextResponse.json({ error: 'Invalid room' }, { status: 400 });
+    }
+
+    const ownerId = getOwnerId(request);
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Missing owner cookie' }, { status: 401 });
+    }
+    checkRoomAccess(getAccessGrants(request), roomId);
+
+    const body = await request.json().catch(() => null);
+    const name = body?.name;
+    const size = body?.size;
+
+    if (typeof name !== 'string' || !name || typeof size !== 'number' || !Number.isInteger(size) || size < 0) {
+      return NextResponse.json({ error: 'name and size are required' }, { status: 400 });
+    }
+
+    const expiry = parseExpiryPolicy(body.expiry);
+    if (typeof expiry === 'string') {
+      return NextResponse.json({ error: expiry }, { status: 400 });
+    }
+
+    const encryptedMeta = body.encryptedMeta ?? null;
+    if (encryptedMeta !== null && !isEncryptedMetadata(encryptedMeta)) {
+      return NextResponse.json({ error: 'Invalid encryptedMeta' }, { status: 400 });
+    }
+
+    // The real name, type and path of an encrypted file are in encryptedMeta
+    const type = encryptedMeta !== null ? 'application/octet-stream' : typeof body.type === 'string' ? normalizeContentType(body.type) : '';
+    const path = encryptedMeta === null ? normalizeFolderPath(body.path) : '';
+    if (path === null) {
+      return NextResponse.json({ error: 'path is too long' }, { status: 400 });
+    }
+
+    const password = body.password || null;
+    if (password !== null && !isValidPassword(password)) {
+      return NextResponse.json({ error: 'Invalid password' }, { status: 400 });
+    }
+    // Only the hash is kept with the session
+    const passwordHash = password === null ? null : await hashPassword(password);
+
+    // Limits are checked on the declared size and type, before any bytes are sent.
+    // Uploads still in progress count with their declared size.
+    checkFile(uploadLimits, { name, size, type });
+    const session = await uploadSessions.create(
+      { roomId, ownerId, name, path, size, type, encryptedMeta, passwordHash, expiry },
+      async staged => {
+        const usage = await fileStore.getUsage(ownerId);
+        checkQuota(uploadLimits, addUsage(usage, staged), size, name);
+      },
+    );
+
+    return NextResponse.json(toUploadStatus(session), { status: 201 });
+  } catch (error) {
+    if (error instanceof LimitError || error instanceof AccessError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating upload session:', error);
+    return NextResponse.json({ error: 'Failed to create upload session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { checkFileAccess, getAccessGrants } from '@/lib/access';
+import { serveStoredFile } from '@/lib/download';
+import { ApiError, handleApiError, parseRoomId } from '@/lib/api/server';
+
+type RouteContext = { params: Promise<{ roomId: string; fileId: string }> };
+
+// The file's bytes, like /api/files/[id]/raw (see serveStoredFile in lib/download.ts)
+async function serveContent(request: NextRequest, params: RouteContext['params'], includeBody: boolean) {
+  try {
+    const { roomId: room, fileId } = await params;
+    const file = await fileStore.getFileInfo(parseRoomId(room), fileId);
+    if (!file) {
+      throw new ApiError('File not found', 404, 'not_found');
+    }
+    checkFileAccess(getAccessGrants(request), file);
+
+    return await serveStoredFile(request, file, includeBody);
+  } catch (error) {
+    return handleApiError(error, 'serving file', 'Failed to fetch file');
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return serveContent(request, params, true);
+}
+
+export async function HEAD(request: NextRequest, { params }: RouteContext) {
+  return serveContent(request, params, false);
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, toFileMetadata } from '@/lib/fileStore';
+import { getClientIp, getOwnerId } from '@/lib/auth';
+import { canReadFile, checkRoomAccess, getAccessGrants, hasShareLink } from '@/lib/access';
+import type { FileResponse } from '@/lib/api/schemas';
+import { ApiError, handleApiError, parseRoomId } from '@/lib/api/server';
+
+type RouteContext = { params: Promise<{ roomId: string; fileId: string }> };
+
+// Metadata of one file; looking it up doesn't use up a download
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { roomId: room, fileId } = await params;
+    const roomId = parseRoomId(room);
+    const grants = getAccessGrants(request);
+
+    const info = await fileStore.getFileInfo(roomId, fileId);
+    if (!info) {
+      throw new ApiError('File not found', 404, 'not_found');
+    }
+    // A share link opens its file without the room password
+    if (!hasShareLink(grants, info.id)) {
+      checkRoomAccess(grants, roomId);
+    }
+
+    const response: FileResponse = { data: toFileMetadata(info, grants.ownerId, canReadFile(grants, info)) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return handleApiError(error, 'fetching file', 'Failed to fetch file');
+  }
+}
+
+// Only the uploader or a room admin may delete a file
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { roomId: room, fileId } = await params;
+    const roomId = parseRoomId(room);
+
+    if (!await fileStore.getFileInfo(roomId, fileId)) {
+      throw new ApiError('File not found', 404, 'not_found');
+    }
+    await fileStore.removeFile(roomId, fileId, getOwnerId(request), getClientIp(request));
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'deleting file', 'Failed to delete file');
+  }
+}
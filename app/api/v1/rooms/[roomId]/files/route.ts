@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore, toFileMetadata } from '@/lib/fileStore';
+import { getClientIp, getOwnerId } from '@/lib/auth';
+import { canReadFile, checkRoomAccess, getAccessGrants } from '@/lib/access';
+import { storeMultipartUpload } from '@/lib/multipartUpload';
+import { FileList, FileListQuerySchema, FileMetadata, FileSortField, FilesResponse } from '@/lib/api/schemas';
+import { handleApiError, parseRoomId, requireOwnerId } from '@/lib/api/server';
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+const compareBy: Record<FileSortField, (a: FileMetadata, b: FileMetadata) => number> = {
+  uploadedAt: (a, b) => a.uploadedAt - b.uploadedAt,
+  name: (a, b) => a.name.localeCompare(b.name),
+  size: (a, b) => a.size - b.size,
+};
+
+// Lists the room's files a page at a time (?limit, ?offset), sorted by ?sort and ?order
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const roomId = parseRoomId((await params).roomId);
+    const grants = getAccessGrants(request);
+    checkRoomAccess(grants, roomId);
+    const { limit, offset, sort, order } = FileListQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    const files = (await fileStore.getAllFiles(roomId))
+      .map(file => toFileMetadata(file, grants.ownerId, canReadFile(grants, file)))
+      .sort((a, b) => (order === 'asc' ? 1 : -1) * compareBy[sort](a, b));
+    const nextOffset = offset + limit < files.length ? offset + limit : null;
+
+    const response: FileList = {
+      data: files.slice(offset, offset + limit),
+      page: { offset, limit, total: files.length, nextOffset },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return handleApiError(error, 'fetching files', 'Failed to fetch files');
+  }
+}
+
+// Multipart upload: `files` fields, plus optional `paths`, `ttlSeconds`,
+// `maxDownloads`, `untilDisconnect` and `password` (see lib/multipartUpload.ts)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const roomId = parseRoomId((await params).roomId);
+    const ownerId = requireOwnerId(request);
+    checkRoomAccess(getAccessGrants(request), roomId);
+
+    const response: FilesResponse = { data: await storeMultipartUpload(request, roomId, ownerId) };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'uploading file', 'Failed to upload files');
+  }
+}
+
+// Room admins clear the whole room; ?mine=true removes only the caller's files
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const roomId = parseRoomId((await params).roomId);
+    if (request.nextUrl.searchParams.get('mine') === 'true') {
+      const ownerId = getOwnerId(request);
+      if (ownerId) {
+        await fileStore.removeOwnFiles(roomId, ownerId, getClientIp(request));
+      }
+    } else {
+      await fileStore.clearAll(roomId, getOwnerId(request), getClientIp(request));
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'clearing files', 'Failed to clear files');
+  }
+}
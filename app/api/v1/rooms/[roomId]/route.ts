@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerId } from '@/lib/auth';
+import { checkRoomAccess, getAccessGrants } from '@/lib/access';
+import type { RoomResponse } from '@/lib/api/schemas';
+import { handleApiError, parseRoomId, toRoom } from '@/lib/api/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const roomId = parseRoomId((await params).roomId);
+    checkRoomAccess(getAccessGrants(request), roomId);
+
+    const response: RoomResponse = { data: toRoom(roomId, getOwnerId(request)) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return handleApiError(error, 'fetching room', 'Failed to fetch room');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import { hashPassword } from '@/lib/passwords';
+import { CreateRoomBodySchema, RoomResponse } from '@/lib/api/schemas';
+import { ApiError, handleApiError, parseRoomId, requireOwnerId, toRoom } from '@/lib/api/server';
+
+// Creates a room and makes the caller its admin, like POST /api/rooms. For a room
+// the caller already is admin of, only a password in the body changes anything.
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = requireOwnerId(request);
+    const body = CreateRoomBodySchema.parse(await request.json().catch(() => ({})));
+
+    let roomId: string | null;
+    let created = true;
+    if (body.roomId !== undefined) {
+      roomId = parseRoomId(body.roomId);
+      if (roomId === DEFAULT_ROOM_ID) {
+        throw new ApiError('The public room cannot be claimed', 403, 'forbidden');
+      }
+      const claim = await fileStore.claimRoom(roomId, ownerId);
+      if (claim === 'has-admin') {
+        throw new ApiError('Room already has an admin', 409, 'conflict');
+      }
+      if (claim === 'in-use') {
+        throw new ApiError('Others are already using this room', 409, 'conflict');
+      }
+      created = claim === 'claimed';
+    } else {
+      roomId = await fileStore.claimRandomRoom(ownerId);
+      if (!roomId) {
+        throw new ApiError('Could not find a free room name', 503, 'unavailable');
+      }
+    }
+    // Hashed only once the claim went through, so refused claims cost no hashing
+    if (body.password) {
+      await fileStore.setRoomPassword(roomId, ownerId, await hashPassword(body.password));
+    }
+
+    const response: RoomResponse = { data: toRoom(roomId, ownerId) };
+    return NextResponse.json(response, { status: created ? 201 : 200 });
+  } catch (error) {
+    return handleApiError(error, 'creating room', 'Failed to create room');
+  }
+}
@@ -0,0 +1,299 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import NextImage from 'next/image';
+import { Download, Lock, KeyRound, Flame, File, FileText } from 'lucide-react';
+import { roomPath } from '@/lib/rooms';
+import { describeRemainingLifetime } from '@/lib/expiry';
+import { formatLimit } from '@/lib/limits';
+import { renderSnippetHtml } from '@/lib/highlight';
+import { ContentCache, CachedContent, DEFAULT_CONTENT_CACHE_LIMITS } from '@/lib/contentCache';
+import { isTextFile } from '@/lib/textDecoding';
+import { normalizeContentType } from '@/lib/contentType';
+import { EncryptedFileMetadata, decryptFile, decryptMetadata, keyHash } from '@/lib/e2e';
+import { useLocationHref, useRoomKey } from '@/lib/locationHash';
+import type { FileMetadata } from '@/lib/api/schemas';
+import { ApiClient, ApiRequestError } from '@/lib/api/client';
+import { findPreviewRenderer } from './previews';
+import QrCode from './QrCode';
+
+type LoadState =
+  | { status: 'loading' | 'not-found' | 'room-locked' | 'error' }
+  | { status: 'ready'; file: FileMetadata };
+
+// Share page of a single file (app/f/[id]): a preview, a download button and
+// a QR code of the page, so the file can be handed to a phone. `token` is the
+// signed link token, if the page was opened through one.
+export default function FileSharePage({ fileId, roomId, token }: { fileId: string; roomId: string; token: string | null }) {
+  const query = `room=${encodeURIComponent(roomId)}${token ? `&token=${encodeURIComponent(token)}` : ''}`;
+  const rawUrl = `/api/files/${encodeURIComponent(fileId)}/raw?${query}`;
+  const roomKey = useRoomKey();
+  const href = useLocationHref();
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+  // Bumped after unlocking, to look the file up again
+  const [reloads, setReloads] = useState(0);
+  const [decrypted, setDecrypted] = useState<{ key: string; metadata: EncryptedFileMetadata | null } | null>(null);
+  const [content, setContent] = useState<{ url: string; value: CachedContent | null } | null>(null);
+  const [contentCache] = useState(() => new ContentCache());
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    new ApiClient({ token: token ?? undefined }).getFile(roomId, fileId)
+      .then(file => {
+        if (!cancelled) setState({ status: 'ready', file });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        if (error instanceof ApiRequestError && error.code === 'not_found') {
+          setState({ status: 'not-found' });
+        } else if (error instanceof ApiRequestError && error.code === 'password_required') {
+          setState({ status: 'room-locked' });
+        } else {
+          console.error('Error loading file:', error);
+          setState({ status: 'error' });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, roomId, token, reloads]);
+
+  const listed = state.status === 'ready' ? state.file : null;
+  const encryptedMeta = listed?.encryptedMeta ?? null;
+  const decryptedKey = encryptedMeta && roomKey ? `${roomKey}:${encryptedMeta}` : null;
+
+  useEffect(() => {
+    if (!encryptedMeta || !roomKey) return;
+    let cancelled = false;
+    decryptMetadata(encryptedMeta, roomKey).then(metadata => {
+      if (!cancelled) setDecrypted({ key: `${roomKey}:${encryptedMeta}`, metadata });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [encryptedMeta, roomKey]);
+
+  // Encrypted files show their real name once the metadata is decrypted
+  const metadata = decryptedKey && decrypted?.key === decryptedKey ? decrypted.metadata : null;
+  const file = listed && metadata ? { ...listed, ...metadata } : listed;
+  const renderer = file ? findPreviewRenderer(file) : null;
+
+  // Texts are previewed from the first part of the file, like in the grid.
+  // Download-limited files are never loaded just for a preview.
+  const previewUrl = file && file.encryptedMeta === null && !file.requiresPassword && file.downloadsLeft === null &&
+    (file.kind === 'text' || renderer !== null || isTextFile(file))
+    ? `/api/files/${encodeURIComponent(file.id)}/${renderer?.source ?? 'raw'}?${query}`
+    : null;
+
+  useEffect(() => {
+    if (!previewUrl) return;
+    let cancelled = false;
+    contentCache.load(previewUrl, previewUrl).then(
+      value => {
+        if (!cancelled) setContent({ url: previewUrl, value });
+      },
+      error => {
+        console.error('Error loading preview content:', error);
+        if (!cancelled) setContent({ url: previewUrl, value: null });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [previewUrl, contentCache]);
+
+  const unlock = async (url: string, password: FormDataEntryValue | null) => {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to unlock');
+      }
+      setReloads(count => count + 1);
+    } catch (error) {
+      console.error('Error unlocking:', error);
+      alert(error instanceof Error ? error.message : 'Failed to unlock. Please try again.');
+    }
+  };
+
+  // Encrypted files are decrypted in the browser and saved from memory
+  const downloadDecrypted = async (name: string, type: string) => {
+    setIsDecrypting(true);
+    try {
+      const response = await fetch(rawUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${name} (${response.status})`);
+      }
+      const data = await decryptFile(new Uint8Array(await response.arrayBuffer()), roomKey!);
+      const url = URL.createObjectURL(new Blob([data], { type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = name;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Error decrypting file:', error);
+      alert('This file could not be decrypted with the key in the link.');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const renderPasswordForm = (label: string, onSubmit: (password: FormDataEntryValue | null) => void) => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(new FormData(e.currentTarget).get('password'));
+      }}
+      className="text-center py-12"
+    >
+      <Lock className="w-12 h-12 mx-auto mb-3 text-slate-600" />
+      <p className="text-gray-700 mb-4">{label}</p>
+      <div className="flex items-center justify-center gap-2">
+        <input
+          name="password"
+          type="password"
+          required
+          autoFocus
+          placeholder="Password"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm font-medium hover:bg-blue-600 transition-colors"
+        >
+          Unlock
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderNotice = (icon: React.ReactNode, text: string) => (
+    <div className="flex flex-col items-center justify-center py-12 text-center text-gray-600">
+      {icon}
+      <p className="mt-3">{text}</p>
+    </div>
+  );
+
+  const renderPreview = (file: FileMetadata) => {
+    if (file.requiresPassword) {
+      return renderPasswordForm('This file is password protected', password =>
+        unlock(`/api/files/${encodeURIComponent(file.id)}/unlock?room=${encodeURIComponent(roomId)}`, password)
+      );
+    }
+    if (file.encryptedMeta !== null) {
+      if (!metadata) {
+        return renderNotice(
+          <Lock className="w-12 h-12 text-slate-600" />,
+          roomKey ? 'Encrypted with a different key' : 'Encrypted - open the full link including its #key to see it'
+        );
+      }
+      return renderNotice(<KeyRound className="w-12 h-12 text-green-600" />, 'End-to-end encrypted - the file is decrypted in your browser when you download it');
+    }
+    if (file.downloadsLeft !== null) {
+      return renderNotice(<Flame className="w-12 h-12 text-orange-600" />, 'Burns after download');
+    }
+
+    if (file.type.startsWith('image/')) {
+      return <NextImage src={rawUrl} alt={file.name} width={0} height={0} unoptimized className="w-full h-auto rounded-lg" />;
+    }
+    if (file.type.startsWith('video/')) {
+      return <video src={rawUrl} controls className="w-full rounded-lg" />;
+    }
+    if (file.type.startsWith('audio/')) {
+      return <audio src={rawUrl} controls className="w-full" />;
+    }
+    if (normalizeContentType(file.type) === 'application/pdf') {
+      // Sandboxed like the response itself (see serveStoredFile in lib/download.ts)
+      return <iframe src={rawUrl} sandbox="" className="w-full h-[600px] rounded-lg border" title={file.name} />;
+    }
+
+    if (previewUrl) {
+      const loaded = content?.url === previewUrl ? content.value : undefined;
+      if (loaded === undefined) return <p className="text-sm text-gray-500">Loading...</p>;
+      if (loaded === null) return renderNotice(<FileText className="w-12 h-12 text-gray-400" />, 'Preview not available');
+      return (
+        <div className="bg-gray-50 rounded-lg p-6 overflow-auto">
+          {file.kind === 'text' ? (
+            <pre
+              className="text-sm text-gray-700 whitespace-pre-wrap break-words font-mono"
+              dangerouslySetInnerHTML={{ __html: renderSnippetHtml(loaded.text, file.language) }}
+            />
+          ) : renderer ? (
+            <renderer.Preview file={file} content={loaded.text} mode="viewer" />
+          ) : (
+            <pre className="text-sm text-gray-700 whitespace-pre-wrap break-words font-mono">{loaded.text}</pre>
+          )}
+          {loaded.truncated && (
+            <p className="mt-4 text-xs text-gray-500">
+              Showing the first {formatLimit(DEFAULT_CONTENT_CACHE_LIMITS.maxBytesPerFile)} - download the file to see all of it.
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    return renderNotice(<File className="w-12 h-12 text-gray-400" />, 'Preview not available for this file type');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="max-w-4xl mx-auto p-8">
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          {state.status === 'loading' && renderNotice(null, 'Loading...')}
+          {state.status === 'not-found' && renderNotice(<File className="w-12 h-12 text-gray-300" />, 'This file doesn\'t exist, or it has expired.')}
+          {state.status === 'error' && renderNotice(null, 'The file could not be loaded. Please try again.')}
+          {state.status === 'room-locked' && renderPasswordForm('This room is password protected', password =>
+            unlock(`/api/rooms/unlock?room=${encodeURIComponent(roomId)}`, password)
+          )}
+
+          {file && (
+            <>
+              <div className="border-b p-4 flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <h1 className="font-bold text-lg truncate" title={file.name}>{file.name}</h1>
+                  <p className="text-sm text-gray-500">{describeRemainingLifetime(file, Date.now())}</p>
+                </div>
+                {!file.requiresPassword && (file.encryptedMeta === null ? (
+                  <a
+                    href={`${rawUrl}&download=1`}
+                    download={file.name}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download
+                  </a>
+                ) : metadata && (
+                  <button
+                    onClick={() => downloadDecrypted(metadata.name, metadata.type)}
+                    disabled={isDecrypting}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    {isDecrypting ? 'Decrypting...' : 'Download'}
+                  </button>
+                ))}
+              </div>
+              <div className="p-6">
+                {renderPreview(file)}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="mt-8 flex flex-col items-center gap-3 text-sm text-gray-600">
+          {href && <QrCode value={href} size={160} />}
+          <p>Scan to open this page on another device</p>
+          <Link href={roomPath(roomId) + (roomKey ? keyHash(roomKey) : '')} className="text-blue-600 hover:underline">
+            Open the room
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2150 @@
+'use client';
+import React, { useState, useEffect, useEffectEvent, useRef, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import NextImage from 'next/image';
+import { Upload, File, ImageIcon, Video, Music, FileText, X, Eye, Play, Download, Flame, AlertTriangle, Folder, FolderOpen, FolderUp, ChevronRight, Copy, Check, Type, Lock, KeyRound, Share2, Radio, Smartphone, Tablet, Monitor, Terminal, CircleHelp, Users, Pencil, LucideIcon } from 'lucide-react';
+import { uploadFileInChunks } from '@/lib/chunkedUpload';
+import { ExpiryPolicy, TTL_OPTIONS, MAX_TTL_SECONDS, MAX_DOWNLOADS_LIMIT, HEARTBEAT_INTERVAL_MS, describeRemainingLifetime } from '@/lib/expiry';
+import { DEFAULT_ROOM_ID, isValidRoomId, normalizeRoomId, roomPath, sharePath } from '@/lib/rooms';
+import { UploadLimits, LimitError, checkFile, formatLimit } from '@/lib/limits';
+import { buildFolderTree, FolderNode } from '@/lib/folders';
+import { PickedFile, readDroppedFiles, readPastedFiles, fromFileList } from '@/lib/droppedFiles';
+import { SNIPPET_LANGUAGES, MAX_SNIPPET_BYTES, parseSnippet } from '@/lib/snippets';
+import { renderSnippetHtml } from '@/lib/highlight';
+import { captureVideoPoster } from '@/lib/videoPoster';
+import { ContentCache, CachedContent, DEFAULT_CONTENT_CACHE_LIMITS } from '@/lib/contentCache';
+import { isTextFile } from '@/lib/textDecoding';
+import { isInlineContentType, normalizeContentType } from '@/lib/contentType';
+import {
+  EncryptedFileMetadata, generateRoomKey, keyHash, encryptFile, decryptFile, encryptMetadata, decryptMetadata,
+} from '@/lib/e2e';
+import { useLocationHref, useRoomKey } from '@/lib/locationHash';
+import { createPeerId, PeerConnectionError, PeerSignal, PeerTransfers } from '@/lib/peerTransfer';
+import type { PeerFile, PresentDevice } from '@/lib/signaling';
+import { DeviceType, MAX_DEVICE_NAME_LENGTH, normalizeDeviceName } from '@/lib/devices';
+import type { FileMetadata, StorageInfo } from '@/lib/api/schemas';
+import { ApiClient, ApiRequestError } from '@/lib/api/client';
+import { findPreviewRenderer, PreviewSource } from './previews';
+import ShareDialog from './ShareDialog';
+
+interface UploadedFile extends FileMetadata {
+  url: string;
+  // Encrypted file that the room key (if any) can't decrypt. Once decrypted,
+  // name, type, path, ... are the real ones.
+  locked: boolean;
+}
+
+interface UploadProgress {
+  key: string;
+  name: string;
+  size: number;
+  loaded: number;
+  status: 'uploading' | 'done' | 'error';
+  error?: string;
+}
+
+interface PeerDownload {
+  loaded: number;
+  status: 'connecting' | 'receiving' | 'fallback' | 'error';
+  error?: string;
+}
+
+const api = new ApiClient();
+
+const storageLabels: Record<StorageInfo['backend'], string> = {
+  memory: 'In-memory only (no disk storage)',
+  disk: 'Stored on server disk',
+  sqlite: 'Stored in server database',
+};
+
+const deviceIcons: Record<DeviceType, LucideIcon> = {
+  phone: Smartphone,
+  tablet: Tablet,
+  desktop: Monitor,
+  cli: Terminal,
+  unknown: CircleHelp,
+};
+
+function DeviceIcon({ type, className }: { type: DeviceType; className: string }) {
+  const Icon = deviceIcons[type];
+  return <Icon className={className} />;
+}
+
+
+// Key of a file's preview content in the content cache
+function contentKey(fileId: string, source: PreviewSource) {
+  return `${fileId}:${source}`;
+}
+
+function metadataKey(roomKey: string, encryptedMeta: string) {
+  return `${roomKey}:${encryptedMeta}`;
+}
+
+export default function FileUploader({ roomId }: { roomId: string }) {
+  const router = useRouter();
+  const roomQuery = `room=${encodeURIComponent(roomId)}`;
+  // Identifies this page for direct transfers (see lib/peerTransfer.ts)
+  const [peerId] = useState(createPeerId);
+  const roomKey = useRoomKey();
+  const href = useLocationHref();
+  const [listedFiles, setListedFiles] = useState<UploadedFile[]>([]);
+  // Decrypted metadata of encrypted files by metadataKey, null if it can't be decrypted
+  const [decryptedMetadata, setDecryptedMetadata] = useState<Map<string, EncryptedFileMetadata | null>>(new Map());
+  const [openedFile, setOpenedFile] = useState<UploadedFile | null>(null);
+  // Decrypted copy of the opened file if it's encrypted, null if decrypting failed
+  const [decryptedUrl, setDecryptedUrl] = useState<{ id: string; url: string | null } | null>(null);
+  const [playingAudio, setPlayingAudio] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
+  const [limits, setLimits] = useState<UploadLimits | null>(null);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [roomInput, setRoomInput] = useState('');
+  const [isRoomAdmin, setIsRoomAdmin] = useState(false);
+  // The room has a password this visitor hasn't entered yet
+  const [roomLocked, setRoomLocked] = useState(false);
+  // Expiry of the access tokens for files unlocked since the list was loaded, by file ID
+  const [unlockedUntil, setUnlockedUntil] = useState<Map<string, number>>(new Map());
+  const [uploadPassword, setUploadPassword] = useState('');
+  const [lifetime, setLifetime] = useState(TTL_OPTIONS[1].seconds.toString());
+  const [burnAfter, setBurnAfter] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [isDragging, setIsDragging] = useState(false);
+  const [snippetText, setSnippetText] = useState('');
+  const [snippetTitle, setSnippetTitle] = useState('');
+  const [snippetLanguage, setSnippetLanguage] = useState('');
+  const [isSharingSnippet, setIsSharingSnippet] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isSharingRoom, setIsSharingRoom] = useState(false);
+  // Offer picked files for direct transfer instead of uploading them
+  const [isPeerMode, setIsPeerMode] = useState(false);
+  // Files offered for direct transfer by anyone in the room, this page included
+  const [listedPeerFiles, setListedPeerFiles] = useState<PeerFile[]>([]);
+  const [peerDownloads, setPeerDownloads] = useState<Map<string, PeerDownload>>(new Map());
+  // Everyone with the room open, this page included (see lib/signaling.ts)
+  const [devices, setDevices] = useState<PresentDevice[]>([]);
+  const [sharedFile, setSharedFile] = useState<UploadedFile | null>(null);
+  // Signed link created in the share dialog (see app/api/files/[id]/link)
+  const [signedLink, setSignedLink] = useState<{ fileId: string; url: string; expiresAt: number } | null>(null);
+  const [linkLifetime, setLinkLifetime] = useState(TTL_OPTIONS[2].seconds.toString());
+  // Text shown in previews, fetched on demand (see lib/contentCache.ts)
+  const [contentCache] = useState(() => new ContentCache());
+  // Bumped whenever a text finishes loading, so previews re-render with it
+  const [, setLoadedTexts] = useState(0);
+  // Content keys (see contentKey) that couldn't be loaded
+  const [failedContent, setFailedContent] = useState<Set<string>>(new Set());
+  const cardObserverRef = useRef<IntersectionObserver | null>(null);
+  const cardElementsRef = useRef<Set<HTMLElement>>(new Set());
+  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const peerTransfersRef = useRef<PeerTransfers | null>(null);
+  // The files behind this page's offers, by offered file ID, with the folder and expiry to use if they end up on the server
+  const offeredFilesRef = useRef<Map<string, { file: File; path: string; expiry: ExpiryPolicy }>>(new Map());
+  const metadataRef = useRef<FileMetadata[]>([]);
+  // dragenter/dragleave fire for every child element, so count how deep the drag is
+  const dragDepthRef = useRef(0);
+
+  // The list is metadata only - contents are loaded when a card becomes visible or is opened
+  const syncFiles = useCallback((fileMetadataList: FileMetadata[]) => {
+    setListedFiles(previous => {
+      const currentIds = new Set(fileMetadataList.map(f => f.id));
+      previous.forEach(file => {
+        if (!currentIds.has(file.id)) {
+          contentCache.delete(contentKey(file.id, 'raw'));
+          contentCache.delete(contentKey(file.id, 'entries'));
+        }
+      });
+      // Media elements stream straight from the raw endpoint (with Range support)
+      return fileMetadataList.map(metadata => ({
+        ...metadata,
+        url: `/api/files/${metadata.id}/raw?${roomQuery}`,
+        locked: metadata.encryptedMeta !== null,
+      }));
+    });
+  }, [roomQuery, contentCache]);
+
+  // Encrypted files show up with their real name, type and folder once their metadata is decrypted
+  // Files unlocked with their password are readable until the access token expires
+  const files = useMemo(() => listedFiles.map(listed => {
+    const file = listed.requiresPassword && (unlockedUntil.get(listed.id) ?? 0) > now
+      ? { ...listed, requiresPassword: false }
+      : listed;
+    if (file.encryptedMeta === null) return file;
+    const metadata = roomKey ? decryptedMetadata.get(metadataKey(roomKey, file.encryptedMeta)) : null;
+    return metadata ? { ...file, ...metadata, locked: false } : file;
+  }), [listedFiles, decryptedMetadata, roomKey, unlockedUntil, now]);
+
+  // Offers in encrypted rooms only have a placeholder name and type, like the files
+  const peerFiles = useMemo(() => listedPeerFiles.map(file => {
+    if (file.encryptedMeta === null) return file;
+    const metadata = roomKey ? decryptedMetadata.get(metadataKey(roomKey, file.encryptedMeta)) : null;
+    return metadata ? { ...file, name: metadata.name, type: metadata.type } : file;
+  }), [listedPeerFiles, decryptedMetadata, roomKey]);
+
+  useEffect(() => {
+    if (!roomKey) return;
+    const pending = [...listedFiles, ...listedPeerFiles].flatMap(file =>
+      file.encryptedMeta !== null && !decryptedMetadata.has(metadataKey(roomKey, file.encryptedMeta)) ? [file.encryptedMeta] : []
+    );
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(pending.map(async encryptedMeta =>
+      [metadataKey(roomKey, encryptedMeta), await decryptMetadata(encryptedMeta, roomKey)] as const
+    )).then(results => {
+      if (!cancelled) setDecryptedMetadata(previous => new Map([...previous, ...results]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [listedFiles, listedPeerFiles, decryptedMetadata, roomKey]);
+
+  // Subscribe to file updates via Server-Sent Events, falling back to polling
+  // Nothing is loaded while the room is locked - unlocking it subscribes again
+  useEffect(() => {
+    if (roomLocked) return;
+    let eventSource: EventSource | null = null;
+    let closed = false;
+
+    // Poll every 1 second for updates (only when SSE is unavailable)
+    const startPolling = () => {
+      if (pollingIntervalRef.current || closed) return;
+      console.log('Falling back to polling for file updates');
+      pollingIntervalRef.current = setInterval(async () => {
+        try {
+          const response = await fetch(`/api/files/stream?${roomQuery}&peer=${peerId}`);
+          if (response.status === 401) {
+            setRoomLocked(true);
+            return;
+          }
+          const data = await response.json();
+          if (data.storage) setStorageInfo(data.storage);
+          if (typeof data.isRoomAdmin === 'boolean') setIsRoomAdmin(data.isRoomAdmin);
+          if (data.files) {
+            metadataRef.current = data.files as FileMetadata[];
+            syncFiles(metadataRef.current);
+          }
+          if (data.peerFiles) setListedPeerFiles(data.peerFiles);
+          if (data.devices) setDevices(data.devices);
+          (data.signals as { from: string; data: unknown }[] | undefined)?.forEach(signal => {
+            peerTransfersRef.current?.handleSignal(signal.from, signal.data);
+          });
+        } catch (error) {
+          console.error('Error polling files:', error);
+        }
+      }, 1000);
+    };
+
+    const stopPolling = () => {
+      if (pollingIntervalRef.current) {
+        clearInterval(pollingIntervalRef.current);
+        pollingIntervalRef.current = null;
+      }
+    };
+
+    const connectStream = () => {
+      if (typeof EventSource === 'undefined') {
+        startPolling();
+        return;
+      }
+
+      eventSource = new EventSource(`/api/files/stream?${roomQuery}&peer=${peerId}`);
+
+      eventSource.onopen = () => {
+        stopPolling();
+      };
+
+      eventSource.addEventListener('snapshot', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        if (data.storage) setStorageInfo(data.storage);
+        if (typeof data.isRoomAdmin === 'boolean') setIsRoomAdmin(data.isRoomAdmin);
+        metadataRef.current = data.files as FileMetadata[];
+        syncFiles(metadataRef.current);
+        setListedPeerFiles(data.peerFiles ?? []);
+        setDevices(data.devices ?? []);
+      });
+
+      eventSource.addEventListener('file-added', (event) => {
+        const { file } = JSON.parse((event as MessageEvent).data) as { file: FileMetadata };
+        metadataRef.current = [...metadataRef.current.filter(f => f.id !== file.id), file];
+        syncFiles(metadataRef.current);
+      });
+
+      eventSource.addEventListener('file-updated', (event) => {
+        const { file } = JSON.parse((event as MessageEvent).data) as { file: FileMetadata };
+        metadataRef.current = metadataRef.current.map(f => f.id === file.id ? file : f);
+        syncFiles(metadataRef.current);
+      });
+
+      eventSource.addEventListener('file-removed', (event) => {
+        const { fileId } = JSON.parse((event as MessageEvent).data) as { fileId: string };
+        metadataRef.current = metadataRef.current.filter(f => f.id !== fileId);
+        syncFiles(metadataRef.current);
+      });
+
+      eventSource.addEventListener('cleared', () => {
+        metadataRef.current = [];
+        syncFiles(metadataRef.current);
+      });
+
+      // Direct transfers: offers, and signaling between browsers
+      eventSource.addEventListener('peer-files', (event) => {
+        setListedPeerFiles(JSON.parse((event as MessageEvent).data).files);
+      });
+
+      eventSource.addEventListener('peer-file-added', (event) => {
+        const { file } = JSON.parse((event as MessageEvent).data) as { file: PeerFile };
+        setListedPeerFiles(previous => [...previous.filter(f => f.id !== file.id), file]);
+      });
+
+      eventSource.addEventListener('peer-file-removed', (event) => {
+        const { fileId } = JSON.parse((event as MessageEvent).data) as { fileId: string };
+        setListedPeerFiles(previous => previous.filter(f => f.id !== fileId));
+      });
+
+      eventSource.addEventListener('presence', (event) => {
+        setDevices((JSON.parse((event as MessageEvent).data) as { devices: PresentDevice[] }).devices);
+      });
+
+      eventSource.addEventListener('signal', (event) => {
+        const { from, data } = JSON.parse((event as MessageEvent).data) as { from: string; data: unknown };
+        peerTransfersRef.current?.handleSignal(from, data);
+      });
+
+      eventSource.onerror = () => {
+        // EventSource reconnects by itself (resuming via Last-Event-ID) unless
+        // the connection was closed for good, e.g. a proxy that doesn't allow SSE
+        if (eventSource?.readyState === EventSource.CLOSED) {
+          startPolling();
+        }
+      };
+    };
+
+    // Initial load, so files show up before the stream connects. Returns false if the room is locked.
+    const initialLoad = async () => {
+      try {
+        const [room, files] = await Promise.all([api.getRoom(roomId), api.listAllFiles(roomId)]);
+        setStorageInfo(room.storage);
+        setLimits(room.limits);
+        setIsRoomAdmin(room.isRoomAdmin);
+        if (files.length > 0) {
+          metadataRef.current = files;
+          syncFiles(metadataRef.current);
+        }
+      } catch (error) {
+        if (error instanceof ApiRequestError && error.code === 'password_required') {
+          setRoomLocked(true);
+          return false;
+        }
+        console.error('Error fetching files:', error);
+      }
+      return true;
+    };
+
+    initialLoad().then(loaded => {
+      if (loaded && !closed) connectStream();
+    });
+
+    return () => {
+      closed = true;
+      eventSource?.close();
+      stopPolling();
+    };
+  }, [roomId, roomQuery, peerId, syncFiles, roomLocked]);
+
+  // A receiver couldn't connect directly, so the file goes through the server after all
+  const onFallbackRequest = useEffectEvent(async (fileId: string) => {
+    const offered = offeredFilesRef.current.get(fileId);
+    if (!offered) return;
+    // Once is enough, for every receiver
+    offeredFilesRef.current.delete(fileId);
+    try {
+      const { file, path, expiry } = offered;
+      // Encrypted rooms never put a plaintext file on the server, not even as a fallback
+      if (roomKey) {
+        await uploadEncrypted(file, { name: file.name, type: file.type, path, size: file.size, kind: 'file', language: null }, expiry);
+      } else {
+        await uploadFileInChunks(file, { roomId, expiry, path, password: uploadPassword || undefined });
+      }
+      await withdrawPeerFile(fileId);
+    } catch (error) {
+      console.error('Error uploading file for a peer:', error);
+      offeredFilesRef.current.set(fileId, offered);
+    }
+  });
+
+  useEffect(() => {
+    const transfers = new PeerTransfers({
+      peerId,
+      sendSignal: async (to: string, signal: PeerSignal) => {
+        const response = await fetch(`/api/peers/signal?${roomQuery}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ from: peerId, to, data: signal }),
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || 'Failed to reach the other device');
+        }
+      },
+      getOfferedFile: fileId => offeredFilesRef.current.get(fileId)?.file,
+      onFallbackRequest: fileId => onFallbackRequest(fileId),
+    });
+    peerTransfersRef.current = transfers;
+    return () => {
+      transfers.close();
+      peerTransfersRef.current = null;
+    };
+  }, [peerId, roomQuery]);
+
+  // Keep "until I leave" uploads alive while this page is open
+  useEffect(() => {
+    const sendHeartbeat = () => {
+      fetch(`/api/files/heartbeat?${roomQuery}`, { method: 'POST' }).catch(error => {
+        console.error('Error sending heartbeat:', error);
+      });
+    };
+
+    sendHeartbeat();
+    const heartbeatInterval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(heartbeatInterval);
+  }, [roomQuery]);
+
+  // Tick the clock used for the remaining lifetime labels
+  useEffect(() => {
+    const clockInterval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(clockInterval);
+  }, []);
+
+  const joinRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextRoomId = normalizeRoomId(roomInput);
+    if (!isValidRoomId(nextRoomId)) {
+      alert('Room names may only contain letters, numbers and dashes.');
+      return;
+    }
+    setRoomInput('');
+    router.push(roomPath(nextRoomId));
+  };
+
+  const updateUpload = (key: string, changes: Partial<UploadProgress>) => {
+    setUploads(prev => prev.map(upload => upload.key === key ? { ...upload, ...changes } : upload));
+  };
+
+  // Expiry policy picked in the upload controls, for both files and snippets
+  const currentExpiry = (): ExpiryPolicy => ({
+    ttlSeconds: lifetime === 'disconnect' ? null : Number(lifetime),
+    maxDownloads: burnAfter ? Number(burnAfter) : null,
+    untilDisconnect: lifetime === 'disconnect',
+  });
+
+  const uploadFiles = async (selectedFiles: PickedFile[]) => {
+    if (selectedFiles.length === 0) return;
+    if (isPeerMode) {
+      await offerPeerFiles(selectedFiles);
+      return;
+    }
+
+    setIsUploading(true);
+
+    const expiry = currentExpiry();
+
+    // Files the server would reject anyway are marked right away instead of being sent
+    const entries = selectedFiles.map(({ file, path }, index) => {
+      let error: string | undefined;
+      if (limits) {
+        try {
+          if (limits.maxFilesPerUpload !== null && index >= limits.maxFilesPerUpload) {
+            throw new LimitError(`At most ${limits.maxFilesPerUpload} files can be uploaded at once`, 413, 'too_many_files');
+          }
+          checkFile(limits, file);
+        } catch (limitError) {
+          if (!(limitError instanceof LimitError)) throw limitError;
+          error = limitError.message;
+        }
+      }
+      return { key: `${Date.now()}-${index}-${path}/${file.name}`, file, path, error };
+    });
+    setUploads(prev => [
+      ...prev.filter(upload => upload.status !== 'done'),
+      ...entries.map(({ key, file, path, error }) => ({
+        key,
+        name: path ? `${path}/${file.name}` : file.name,
+        size: file.size,
+        loaded: 0,
+        status: error ? 'error' as const : 'uploading' as const,
+        error,
+      })),
+    ]);
+
+    // Files are uploaded one at a time in chunks; a failed file doesn't stop the rest
+    for (const { key, file, path, error } of entries) {
+      if (error) continue;
+
+      try {
+        // Encryption adds a few bytes per chunk, which the progress bar leaves out
+        const onProgress = (loaded: number) => updateUpload(key, { loaded: Math.min(loaded, file.size) });
+        if (roomKey) {
+          await uploadEncrypted(file, { name: file.name, type: file.type, path, size: file.size, kind: 'file', language: null }, expiry, onProgress);
+          updateUpload(key, { loaded: file.size, status: 'done' });
+          continue;
+        }
+
+        const uploaded = await uploadFileInChunks(file, { roomId, expiry, path, password: uploadPassword || undefined, onProgress });
+        updateUpload(key, { loaded: file.size, status: 'done' });
+        if (uploaded.type.startsWith('video/') && expiry.maxDownloads === null) {
+          void uploadVideoPoster(uploaded.id, file);
+        }
+      } catch (error) {
+        console.error('Error uploading file:', file.name, error);
+        updateUpload(key, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Upload failed',
+        });
+      }
+    }
+
+    setIsUploading(false);
+    // Finished uploads show up in the grid via the push channel
+    setUploads(prev => prev.filter(upload => upload.status !== 'done'));
+  };
+
+  // Only name, size and type go to the server (encrypted, in encrypted rooms); the bytes
+  // stay here until someone downloads them
+  const offerPeerFiles = async (selectedFiles: PickedFile[]) => {
+    const expiry = currentExpiry();
+    for (const { file, path } of selectedFiles) {
+      try {
+        const offer = roomKey
+          ? {
+            name: 'encrypted.bin',
+            type: 'application/octet-stream',
+            encryptedMeta: await encryptMetadata({ name: file.name, type: file.type, path, size: file.size, kind: 'file', language: null }, roomKey),
+          }
+          : { name: file.name, type: file.type };
+        const response = await fetch(`/api/peers/files?${roomQuery}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ peerId, size: file.size, ...offer }),
+        });
+        const body = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(body?.error || `Failed to offer ${file.name}`);
+        }
+        offeredFilesRef.current.set(body.file.id, { file, path, expiry });
+      } catch (error) {
+        console.error('Error offering file:', error);
+        alert(error instanceof Error ? error.message : 'Failed to offer file. Please try again.');
+      }
+    }
+  };
+
+  const withdrawPeerFile = async (fileId: string) => {
+    offeredFilesRef.current.delete(fileId);
+    const response = await fetch(`/api/peers/files?${roomQuery}&id=${encodeURIComponent(fileId)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || 'Failed to withdraw file');
+    }
+  };
+
+  const updatePeerDownload = (fileId: string, download: PeerDownload | null) => {
+    setPeerDownloads(previous => {
+      const next = new Map(previous);
+      if (download) {
+        next.set(fileId, download);
+      } else {
+        next.delete(fileId);
+      }
+      return next;
+    });
+  };
+
+  const downloadPeerFile = async (file: PeerFile) => {
+    const transfers = peerTransfersRef.current;
+    if (!transfers) return;
+    updatePeerDownload(file.id, { loaded: 0, status: 'connecting' });
+    try {
+      const blob = await transfers.receive(file, loaded => updatePeerDownload(file.id, { loaded, status: 'receiving' }));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      updatePeerDownload(file.id, null);
+    } catch (error) {
+      console.error('Error receiving file:', error);
+      if (error instanceof PeerConnectionError) {
+        // The sender uploads it instead, and it shows up with the other files
+        transfers.requestFallback(file).catch(fallbackError => console.error('Error requesting upload:', fallbackError));
+        updatePeerDownload(file.id, { loaded: 0, status: 'fallback' });
+      } else {
+        updatePeerDownload(file.id, { loaded: 0, status: 'error', error: error instanceof Error ? error.message : 'Transfer failed' });
+      }
+    }
+  };
+
+  // The server only gets the ciphertext, and the metadata encrypted separately.
+  // Every upload is encrypted with a new nonce, so the encrypted file gets a new
+  // lastModified to never resume an upload session of an earlier encryption.
+  const uploadEncrypted = async (
+    file: Blob,
+    metadata: EncryptedFileMetadata,
+    expiry: ExpiryPolicy,
+    onProgress?: (loaded: number) => void,
+  ) => {
+    const key = roomKey!;
+    // `File` is the lucide icon in this module
+    const encrypted = new globalThis.File([await encryptFile(file, key)], 'encrypted.bin', {
+      type: 'application/octet-stream',
+      lastModified: Date.now(),
+    });
+    return uploadFileInChunks(encrypted, {
+      roomId,
+      expiry,
+      encryptedMeta: await encryptMetadata(metadata, key),
+      password: uploadPassword || undefined,
+      onProgress,
+    });
+  };
+
+  // The server can't decode video, so the poster frame is taken from the local file
+  const uploadVideoPoster = async (id: string, file: File) => {
+    try {
+      const poster = await captureVideoPoster(file);
+      if (!poster) return;
+      const response = await fetch(`/api/files/${id}/thumbnail?${roomQuery}`, { method: 'PUT', body: poster });
+      if (!response.ok) {
+        throw new Error(`Failed to save poster for ${file.name}`);
+      }
+    } catch (error) {
+      console.error('Error uploading video poster:', error);
+    }
+  };
+
+  // Used by both the file and the folder picker
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Prevent any default behavior that might cause page refresh
+    e.stopPropagation();
+    const input = e.target;
+    await uploadFiles(fromFileList(input.files));
+    // Reset input
+    input.value = '';
+  };
+
+  const onDropFiles = useEffectEvent(async (dataTransfer: DataTransfer) => {
+    if (isUploading) return;
+    await uploadFiles(await readDroppedFiles(dataTransfer));
+  });
+
+  // Returns whether the snippet was shared, so the composer knows to clear itself
+  const shareSnippet = async (text: string, title = '', language = '') => {
+    setIsSharingSnippet(true);
+    try {
+      // Encrypted snippets are uploaded like a file, the server can't tell the difference
+      if (roomKey) {
+        const snippet = parseSnippet({ text, title, language: language || null });
+        if (typeof snippet === 'string') throw new Error(snippet);
+        const data = new Blob([snippet.text], { type: 'text/plain' });
+        // Same limit the server applies to snippets, so they always fit the content cache
+        if (data.size > MAX_SNIPPET_BYTES) throw new Error(`Snippets are limited to ${formatLimit(MAX_SNIPPET_BYTES)}`);
+        await uploadEncrypted(data, {
+          name: snippet.name,
+          type: 'text/plain',
+          path: '',
+          size: data.size,
+          kind: 'text',
+          language: snippet.language,
+        }, currentExpiry());
+        return true;
+      }
+
+      const response = await fetch(`/api/snippets?${roomQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, title, language: language || null, expiry: currentExpiry(), password: uploadPassword || null }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to share text');
+      }
+
+      // The snippet shows up in the grid via the push channel
+      return true;
+    } catch (error) {
+      console.error('Error sharing snippet:', error);
+      alert(error instanceof Error ? error.message : 'Failed to share text. Please try again.');
+      return false;
+    } finally {
+      setIsSharingSnippet(false);
+    }
+  };
+
+  const submitSnippet = async () => {
+    if (!snippetText.trim() || isSharingSnippet) return;
+    if (await shareSnippet(snippetText, snippetTitle, snippetLanguage)) {
+      setSnippetText('');
+      setSnippetTitle('');
+    }
+  };
+
+  const contentDecoder = (file: FileMetadata) => file.encryptedMeta !== null && roomKey
+    ? (data: Uint8Array<ArrayBuffer>) => decryptFile(data, roomKey)
+    : undefined;
+
+  const copySnippet = async (file: UploadedFile) => {
+    try {
+      // Download-limited snippets aren't prefetched, so copying fetches (and uses up a download)
+      const content = await contentCache.load(contentKey(file.id, 'raw'), file.url, contentDecoder(file));
+      // Only the start of very long texts is cached
+      const text = content.truncated ? await (await fetch(file.url)).text() : content.text;
+      await navigator.clipboard.writeText(text);
+      setCopiedId(file.id);
+      setTimeout(() => setCopiedId(current => current === file.id ? null : current), 2000);
+    } catch (error) {
+      console.error('Error copying snippet:', error);
+      alert('Failed to copy to the clipboard.');
+    }
+  };
+
+  const onPasteFiles = useEffectEvent(async (clipboardData: DataTransfer) => {
+    const pastedFiles = readPastedFiles(clipboardData);
+    if (pastedFiles.length === 0) {
+      const text = clipboardData.getData('text/plain');
+      if (text.trim()) await shareSnippet(text);
+      return;
+    }
+    if (isUploading) return;
+    await uploadFiles(pastedFiles);
+  });
+
+  // Files can be dropped anywhere on the page, and pasted unless the user is typing somewhere
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepthRef.current++;
+      setIsDragging(true);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepthRef.current = Math.max(dragDepthRef.current - 1, 0);
+      if (dragDepthRef.current === 0) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return;
+      e.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDragging(false);
+      onDropFiles(e.dataTransfer);
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!e.clipboardData || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      onPasteFiles(e.clipboardData);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
+  const toggleFolder = (path: string) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // Files that were removed since they were selected simply drop out
+  const selectedFiles = files.filter(file => selectedIds.has(file.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const archiveUrl = ({ ids, folder }: { ids?: string[]; folder?: string } = {}) =>
+    `/api/files/archive?${roomQuery}` +
+    (ids ? `&ids=${ids.map(encodeURIComponent).join(',')}` : '') +
+    (folder ? `&folder=${encodeURIComponent(folder)}` : '');
+
+  const removeFile = async (id: string) => {
+    try {
+      await api.deleteFile(roomId, id);
+      // File will be removed via SSE sync
+    } catch (error) {
+      console.error('Error deleting file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete file. Please try again.');
+    }
+  };
+
+  // Room admins clear the whole room, everyone else only their own uploads
+  const clearAllFiles = async (onlyMine: boolean) => {
+    try {
+      await api.clearFiles(roomId, { mine: onlyMine });
+      // Files will be cleared via SSE sync
+    } catch (error) {
+      console.error('Error clearing files:', error);
+      alert(error instanceof Error ? error.message : 'Failed to clear files. Please try again.');
+    }
+  };
+
+  const createRoom = async () => {
+    try {
+      const room = await api.createRoom();
+      router.push(roomPath(room.id));
+    } catch (error) {
+      console.error('Error creating room:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create room. Please try again.');
+    }
+  };
+
+  // Posts a password to an unlock endpoint; the server answers with the access token as a cookie
+  const postPassword = async (url: string, password: FormDataEntryValue | null) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error || 'Failed to unlock');
+    }
+    return body as { expiresAt: number };
+  };
+
+  const unlockRoom = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      await postPassword(`/api/rooms/unlock?${roomQuery}`, new FormData(e.currentTarget).get('password'));
+      setRoomLocked(false);
+    } catch (error) {
+      console.error('Error unlocking room:', error);
+      alert(error instanceof Error ? error.message : 'Failed to unlock room. Please try again.');
+    }
+  };
+
+  const unlockFile = async (e: React.FormEvent<HTMLFormElement>, file: UploadedFile) => {
+    e.preventDefault();
+    try {
+      const { expiresAt } = await postPassword(`/api/files/${file.id}/unlock?${roomQuery}`, new FormData(e.currentTarget).get('password'));
+      setUnlockedUntil(previous => new Map(previous).set(file.id, expiresAt));
+      // The card is already in view, so its preview won't be loaded by scrolling
+      if (!file.locked && hasInlinePreview(file) && file.downloadsLeft === null) {
+        loadContent(file);
+      }
+    } catch (error) {
+      console.error('Error unlocking file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to unlock file. Please try again.');
+    }
+  };
+
+  // Links to encrypted files need the key, which only the fragment carries
+  const fileShareUrl = (file: UploadedFile, token?: string) =>
+    window.location.origin + sharePath(file.id, roomId, token) + (file.encryptedMeta !== null && roomKey ? keyHash(roomKey) : '');
+
+  const createSignedLink = async (file: UploadedFile) => {
+    try {
+      const response = await fetch(`/api/files/${file.id}/link?${roomQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ttlSeconds: Number(linkLifetime) }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error || 'Failed to create link');
+      }
+      setSignedLink({ fileId: file.id, url: fileShareUrl(file, body.token), expiresAt: body.expiresAt });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create link. Please try again.');
+    }
+  };
+
+  // An empty password removes it
+  const changeRoomPassword = async () => {
+    const password = prompt('New room password (leave empty to remove it):');
+    if (password === null) return;
+    try {
+      const response = await fetch(`/api/rooms/password?${roomQuery}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: password || null }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to set room password');
+      }
+    } catch (error) {
+      console.error('Error setting room password:', error);
+      alert(error instanceof Error ? error.message : 'Failed to set room password. Please try again.');
+    }
+  };
+
+  // The new name shows up in the presence list through the push channel
+  const renameDevice = async (current: string | null) => {
+    const input = prompt('Name of this device, as others in the room see it:', current ?? '');
+    if (input === null) return;
+    const name = normalizeDeviceName(input);
+    if (!name) {
+      alert(`Device names can have up to ${MAX_DEVICE_NAME_LENGTH} characters.`);
+      return;
+    }
+    try {
+      const response = await fetch('/api/peers/device', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to rename device');
+      }
+    } catch (error) {
+      console.error('Error renaming device:', error);
+      alert(error instanceof Error ? error.message : 'Failed to rename device. Please try again.');
+    }
+  };
+
+  const hasTextPreview = (file: FileMetadata) => file.kind === 'text' || isTextFile(file);
+
+  const getContent = (file: FileMetadata, source: PreviewSource) => contentCache.get(contentKey(file.id, source));
+
+  // The server can't list what's inside encrypted archives
+  const previewRendererFor = (file: FileMetadata) => {
+    const renderer = findPreviewRenderer(file);
+    return renderer && (file.encryptedMeta === null || renderer.source === 'raw') ? renderer : null;
+  };
+
+  // Loads what the file's preview renders: its text, or its archive listing
+  const loadContent = async (file: UploadedFile) => {
+    const source = previewRendererFor(file)?.source ?? 'raw';
+    const key = contentKey(file.id, source);
+    if (contentCache.get(key) !== undefined) return;
+    try {
+      await contentCache.load(key, `/api/files/${file.id}/${source}?${roomQuery}`, contentDecoder(file));
+      setLoadedTexts(count => count + 1);
+    } catch (error) {
+      console.error('Error loading preview content:', error);
+      setFailedContent(previous => new Set(previous).add(key));
+    }
+  };
+
+  const hasInlinePreview = (file: FileMetadata) => hasTextPreview(file) || previewRendererFor(file) !== null;
+
+  // Download-limited files are never loaded just for a preview, since every
+  // fetch uses up a download
+  const onCardVisible = useEffectEvent((id: string) => {
+    const file = files.find(candidate => candidate.id === id);
+    if (file && !file.locked && !file.requiresPassword && hasInlinePreview(file) && file.downloadsLeft === null) {
+      loadContent(file);
+    }
+  });
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.fileId;
+        if (entry.isIntersecting && id) onCardVisible(id);
+      });
+    }, { rootMargin: '200px' });
+    cardElementsRef.current.forEach(element => observer.observe(element));
+    cardObserverRef.current = observer;
+    return () => {
+      observer.disconnect();
+      cardObserverRef.current = null;
+    };
+  }, []);
+
+  // Ref callback for file cards, so their content is loaded once they come into view
+  const observeCard = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    cardElementsRef.current.add(element);
+    cardObserverRef.current?.observe(element);
+    return () => {
+      cardElementsRef.current.delete(element);
+      cardObserverRef.current?.unobserve(element);
+    };
+  }, []);
+
+  const openViewer = (file: UploadedFile) => {
+    setOpenedFile(file);
+    if (hasInlinePreview(file)) {
+      loadContent(file);
+    }
+  };
+
+  // Encrypted files are shown and downloaded from a decrypted copy in memory
+  const decryptOpenedFile = useEffectEvent(async () => {
+    const file = openedFile!;
+    try {
+      const response = await fetch(file.url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${file.name} (${response.status})`);
+      }
+      const data = await decryptFile(new Uint8Array(await response.arrayBuffer()), roomKey!);
+      // The type comes from metadata anyone with the key could have written, and a
+      // blob: URL runs on this origin - only media and PDFs keep theirs
+      const type = isInlineContentType(file.type) ? normalizeContentType(file.type) : 'application/octet-stream';
+      return new Blob([data], { type });
+    } catch (error) {
+      console.error('Error decrypting file:', error);
+      return null;
+    }
+  });
+
+  const decryptedFileId = openedFile && openedFile.encryptedMeta !== null && !openedFile.locked ? openedFile.id : null;
+  useEffect(() => {
+    if (!decryptedFileId) return;
+    let url: string | null = null;
+    let cancelled = false;
+    decryptOpenedFile().then(blob => {
+      if (cancelled) return;
+      url = blob && URL.createObjectURL(blob);
+      setDecryptedUrl({ id: decryptedFileId, url });
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setDecryptedUrl(null);
+    };
+  }, [decryptedFileId]);
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+  };
+
+  const isApkFile = (file: UploadedFile) => {
+    return file.name.toLowerCase().endsWith('.apk') || 
+           file.type === 'application/vnd.android.package-archive';
+  };
+
+  const getFileIcon = (file: UploadedFile) => {
+    const type = file.type;
+    const name = file.name.toLowerCase();
+    
+    if (file.locked || file.requiresPassword) return <Lock className="w-5 h-5" />;
+    if (type.startsWith('image/')) return <ImageIcon className="w-5 h-5" />;
+    if (type.startsWith('video/')) return <Video className="w-5 h-5" />;
+    if (type.startsWith('audio/')) return <Music className="w-5 h-5" />;
+    if (name.endsWith('.apk') || type === 'application/vnd.android.package-archive')
+      return <FileText className="w-5 h-5 text-green-600" />;
+    if (type.startsWith('text/') || type.includes('document') || type.includes('pdf')) 
+      return <FileText className="w-5 h-5" />;
+    return <File className="w-5 h-5" />;
+  };
+
+  // Says when only the start of a file is shown, or it wasn't decoded as UTF-8
+  const renderPartialNotice = (file: FileMetadata, content: CachedContent) => {
+    if (!content.truncated && content.encoding === 'utf-8') return null;
+    return (
+      <p className="mt-4 text-xs text-gray-500">
+        {content.truncated && `Showing the first ${formatLimit(DEFAULT_CONTENT_CACHE_LIMITS.maxBytesPerFile)} of ${formatFileSize(file.size)} - download the file to see all of it. `}
+        {content.encoding !== 'utf-8' && `Decoded as ${content.encoding}.`}
+      </p>
+    );
+  };
+
+  const renderPreview = (file: UploadedFile) => {
+    if (!file.url) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gray-100 rounded-lg">
+          <p className="text-sm text-gray-500">Loading...</p>
+        </div>
+      );
+    }
+
+    if (file.requiresPassword) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gradient-to-br from-slate-100 to-slate-200 rounded-lg">
+          <form onSubmit={(e) => unlockFile(e, file)} className="text-center px-4">
+            <KeyRound className="w-12 h-12 mx-auto mb-2 text-slate-600" />
+            <p className="text-sm text-gray-600 mb-3">Password protected</p>
+            <div className="flex items-center gap-2">
+              <input
+                name="password"
+                type="password"
+                required
+                placeholder="Password"
+                className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                className="px-3 py-1 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors"
+              >
+                Unlock
+              </button>
+            </div>
+          </form>
+        </div>
+      );
+    }
+
+    if (file.locked) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gradient-to-br from-slate-100 to-slate-200 rounded-lg">
+          <div className="text-center px-4">
+            <Lock className="w-16 h-16 mx-auto mb-2 text-slate-600" />
+            <p className="text-sm text-gray-600 mt-2">
+              {roomKey ? 'Encrypted with a different key' : 'Encrypted - open the full link including its #key to see it'}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    // Loading a preview would use up one of the file's downloads
+    if (file.downloadsLeft !== null) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gradient-to-br from-amber-100 to-orange-100 rounded-lg">
+          <div className="text-center">
+            <Flame className="w-16 h-16 mx-auto mb-2 text-orange-600" />
+            <p className="text-sm text-gray-600 mt-2">Burns after download</p>
+          </div>
+        </div>
+      );
+    }
+
+    // The grid only loads thumbnails; originals are loaded in the viewer
+    if (file.type.startsWith('image/') || file.type.startsWith('video/')) {
+      const isVideo = file.type.startsWith('video/');
+      return (
+        <button
+          type="button"
+          onClick={() => openViewer(file)}
+          className="relative block w-full h-48 rounded-lg overflow-hidden bg-gray-100"
+          title={isVideo ? 'Play video' : 'View image'}
+        >
+          {file.hasThumbnail ? (
+            <NextImage
+              src={`/api/files/${file.id}/thumbnail?${roomQuery}`}
+              alt={file.name}
+              fill
+              unoptimized
+              className="object-cover"
+            />
+          ) : (
+            <span className="flex flex-col items-center justify-center h-full text-gray-500">
+              {isVideo ? <Video className="w-16 h-16 mb-2" /> : <ImageIcon className="w-16 h-16 mb-2" />}
+              <span className="text-sm">{isVideo ? 'Video' : 'Image'}</span>
+            </span>
+          )}
+          {isVideo && (
+            <span className="absolute inset-0 flex items-center justify-center">
+              <span className="p-3 bg-black/60 text-white rounded-full">
+                <Play className="w-6 h-6" />
+              </span>
+            </span>
+          )}
+        </button>
+      );
+    }
+    
+    if (file.type.startsWith('audio/')) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gradient-to-br from-purple-100 to-pink-100 rounded-lg">
+          <div className="text-center">
+            <Music className="w-16 h-16 mx-auto mb-2 text-purple-600" />
+            <p className="text-sm text-gray-600 mt-2">Audio File</p>
+          </div>
+        </div>
+      );
+    }
+
+    // Cards only show the start, so don't render (or highlight) the whole text
+    const text = getContent(file, 'raw')?.text.slice(0, 2000);
+
+    if (file.kind === 'text') {
+      return (
+        <div className="h-48 bg-gray-50 rounded-lg p-4 overflow-hidden">
+          {text === undefined ? (
+            <p className="text-xs text-gray-500">Loading...</p>
+          ) : (
+            <pre
+              className="text-xs text-gray-700 whitespace-pre-wrap break-words font-mono"
+              dangerouslySetInnerHTML={{ __html: renderSnippetHtml(text, file.language) }}
+            />
+          )}
+        </div>
+      );
+    }
+
+    // Markdown, code, tables, archive listings, ... (see ./previews)
+    const renderer = previewRendererFor(file);
+    if (renderer) {
+      const content = getContent(file, renderer.source);
+      return (
+        <div className="h-48 bg-gray-50 rounded-lg p-4 overflow-hidden">
+          {content === undefined ? (
+            <p className="text-xs text-gray-500">
+              {failedContent.has(contentKey(file.id, renderer.source)) ? 'Preview not available' : 'Loading...'}
+            </p>
+          ) : (
+            <renderer.Preview file={file} content={content.text} mode="card" />
+          )}
+        </div>
+      );
+    }
+
+    if (isTextFile(file)) {
+      return (
+        <div className="h-48 bg-gray-50 rounded-lg p-4 overflow-hidden">
+          <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono line-clamp-6">
+            {text ?? 'Loading...'}
+          </pre>
+        </div>
+      );
+    }
+
+    if (file.type === 'application/pdf' || file.type.includes('pdf')) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gradient-to-br from-red-100 to-orange-100 rounded-lg">
+          <div className="text-center">
+            <FileText className="w-16 h-16 mx-auto mb-2 text-red-600" />
+            <p className="text-sm text-gray-600 mt-2">PDF Document</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (file.type.includes('document') || file.type.includes('word')) {
+      return (
+        <div className="flex items-center justify-center h-48 bg-gradient-to-br from-blue-100 to-cyan-100 rounded-lg">
+          <div className="text-center">
+            <FileText className="w-16 h-16 mx-auto mb-2 text-blue-600" />
+            <p className="text-sm text-gray-600 mt-2">Document</p>
+          </div>
+        </div>
+      );
+    }
+    
+    return (
+      <div className="flex items-center justify-center h-48 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg">
+        <div className="text-center">
+          {getFileIcon(file)}
+          <p className="mt-2 text-sm text-gray-600">Preview not available</p>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFileCard = (file: UploadedFile) => (
+    <div
+      key={file.id}
+      ref={observeCard}
+      data-file-id={file.id}
+      className="bg-white rounded-xl shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-200"
+    >
+      <div className="relative">
+        {renderPreview(file)}
+        {/* ZIP archives leave out encrypted files, they can only be downloaded from the viewer */}
+        {file.encryptedMeta === null && !file.requiresPassword && (
+          <label
+            className="absolute bottom-2 left-2 flex items-center justify-center w-8 h-8 bg-white/90 rounded-full shadow-lg cursor-pointer"
+            title="Select for download"
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.has(file.id)}
+              onChange={() => toggleSelected(file.id)}
+              className="w-4 h-4 accent-blue-500 cursor-pointer"
+            />
+          </label>
+        )}
+        {file.kind === 'text' && !file.requiresPassword && (
+          <button
+            onClick={() => copySnippet(file)}
+            className="absolute bottom-2 right-2 p-2 bg-white/90 text-gray-700 rounded-full hover:bg-white transition-colors shadow-lg"
+            title="Copy to clipboard"
+          >
+            {copiedId === file.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+          </button>
+        )}
+        {(file.ownedByMe || isRoomAdmin) && (
+          <button
+            onClick={() => removeFile(file.id)}
+            className="absolute top-2 right-2 p-2 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors shadow-lg"
+            title="Remove file"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+        {!file.locked && !file.requiresPassword && (file.encryptedMeta !== null ||
+          file.type.startsWith('image/') || 
+          file.type.startsWith('video/') || 
+          isTextFile(file) ||
+          previewRendererFor(file) ||
+          file.type.includes('pdf') ||
+          isApkFile(file) ||
+          file.type.includes('document')) && (
+          <button
+            onClick={() => openViewer(file)}
+            className="absolute top-2 left-2 p-2 bg-blue-500 text-white rounded-full hover:bg-blue-600 transition-colors shadow-lg"
+            title="View file"
+          >
+            <Eye className="w-4 h-4" />
+          </button>
+        )}
+        {file.type.startsWith('audio/') && file.encryptedMeta === null && !file.requiresPassword && (
+          <button
+            onClick={() => setPlayingAudio(playingAudio === file.id ? null : file.id)}
+            className="absolute top-2 left-2 p-2 bg-green-500 text-white rounded-full hover:bg-green-600 transition-colors shadow-lg"
+            title="Play audio"
+          >
+            <Play className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="text-gray-600 mt-1">
+            {getFileIcon(file)}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold text-gray-800 truncate" title={file.name}>
+              {file.name}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              {formatFileSize(file.size)}
+            </p>
+            {file.device && (
+              <p className="flex items-center gap-1 text-xs text-gray-500 mt-1 truncate" title="Uploaded from">
+                <DeviceIcon type={file.device.type} className="w-3 h-3 shrink-0" />
+                {file.device.name ?? 'Unnamed device'}
+              </p>
+            )}
+            <p className="text-xs text-gray-400 mt-1">
+              {describeRemainingLifetime(file, now)}
+            </p>
+            {file.typeMismatch && (
+              <span
+                className="inline-flex items-center gap-1 mt-2 mr-2 px-2 py-1 bg-amber-100 text-amber-800 text-xs font-medium rounded"
+                title={`Uploaded as ${file.declaredType}, but the content is ${file.detectedType}`}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                Type mismatch
+              </span>
+            )}
+            {file.passwordProtected && (
+              <span className="inline-flex items-center gap-1 mt-2 mr-2 px-2 py-1 bg-slate-100 text-slate-700 text-xs font-medium rounded">
+                <KeyRound className="w-3 h-3" />
+                Password
+              </span>
+            )}
+            {isApkFile(file) && (
+              <span className="inline-block mt-2 px-2 py-1 bg-green-100 text-green-700 text-xs font-medium rounded">
+                APK File
+              </span>
+            )}
+          </div>
+          <button
+            onClick={() => setSharedFile(file)}
+            className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors shrink-0"
+            title="Share link and QR code"
+          >
+            <Share2 className="w-4 h-4" />
+          </button>
+        </div>
+        {playingAudio === file.id && file.type.startsWith('audio/') && file.url && (
+          <div className="mt-3 pt-3 border-t">
+            <audio 
+              src={file.url} 
+              controls 
+              autoPlay 
+              className="w-full"
+              onEnded={() => setPlayingAudio(null)}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const fileTree = buildFolderTree(files);
+  const viewingFile = openedFile && openedFile.encryptedMeta !== null
+    ? { ...openedFile, url: (decryptedUrl?.id === openedFile.id && decryptedUrl.url) || '' }
+    : openedFile;
+  const isDecrypting = viewingFile !== null && viewingFile.encryptedMeta !== null && decryptedUrl?.id !== viewingFile.id;
+  // The decrypted copy of an encrypted file is a blob: URL, which can't take query parameters
+  const downloadHref = (file: UploadedFile) => file.encryptedMeta === null ? `${file.url}&download=1` : file.url;
+  const viewingContent = viewingFile ? getContent(viewingFile, 'raw') : undefined;
+  const viewingText = viewingContent?.text;
+  const viewerRenderer = viewingFile && viewingFile.kind !== 'text' ? previewRendererFor(viewingFile) : null;
+  const viewerContent = viewingFile && viewerRenderer ? getContent(viewingFile, viewerRenderer.source) : undefined;
+
+  // Files of a folder in the usual grid, with its subfolders as collapsible sections above
+  const renderFolderContents = (node: FolderNode<UploadedFile>) => (
+    <div className="space-y-4">
+      {node.folders.map(folder => {
+        const expanded = expandedFolders.has(folder.path);
+        return (
+          <div key={folder.path} className="bg-white/60 rounded-xl border border-gray-200">
+            <div className="flex items-center justify-between gap-3 p-3">
+              <button
+                onClick={() => toggleFolder(folder.path)}
+                className="flex items-center gap-2 min-w-0 text-left"
+              >
+                <ChevronRight className={`w-4 h-4 shrink-0 text-gray-500 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+                {expanded
+                  ? <FolderOpen className="w-5 h-5 shrink-0 text-yellow-600" />
+                  : <Folder className="w-5 h-5 shrink-0 text-yellow-600" />}
+                <span className="font-semibold text-gray-800 truncate" title={folder.path}>{folder.name}</span>
+                <span className="text-sm text-gray-500 shrink-0">
+                  {folder.fileCount} file{folder.fileCount === 1 ? '' : 's'} • {formatFileSize(folder.totalSize)}
+                </span>
+              </button>
+              <a
+                href={archiveUrl({ folder: folder.path })}
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors shrink-0"
+                title="Download folder as ZIP"
+              >
+                <Download className="w-4 h-4" />
+              </a>
+            </div>
+            {expanded && (
+              <div className="px-3 pb-3 pl-6">
+                {renderFolderContents(folder)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {node.files.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {node.files.map(renderFileCard)}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="max-w-6xl mx-auto p-8">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gray-800 mb-3">
+            Real-Time File Sharing
+          </h1>
+          <p className="text-gray-600">
+            Upload files • Shared with everyone in this room • {storageLabels[storageInfo?.backend ?? 'memory']} • Files expire automatically
+          </p>
+
+          <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+            <span className="px-3 py-1.5 bg-white rounded-lg shadow-sm text-sm text-gray-700">
+              Room: <span className="font-semibold">{roomId === DEFAULT_ROOM_ID ? 'Public' : roomId}</span>
+            </span>
+            <form onSubmit={joinRoom} className="flex items-center gap-2">
+              <input
+                value={roomInput}
+                onChange={(e) => setRoomInput(e.target.value)}
+                placeholder="Room name"
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Join
+              </button>
+            </form>
+            <button
+              onClick={createRoom}
+              className="px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors"
+            >
+              New Room
+            </button>
+            {roomKey ? (
+              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-green-50 text-green-700 rounded-lg text-sm">
+                <Lock className="w-4 h-4" />
+                End-to-end encrypted
+              </span>
+            ) : (
+              <button
+                onClick={() => { window.location.hash = keyHash(generateRoomKey()); }}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                title="Encrypt uploads in this browser, with a key that only travels in the link"
+              >
+                <KeyRound className="w-4 h-4" />
+                Enable encryption
+              </button>
+            )}
+            <button
+              onClick={() => setIsSharingRoom(true)}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              title="Link and QR code of this room"
+            >
+              <Share2 className="w-4 h-4" />
+              Share room
+            </button>
+            {isRoomAdmin && (
+              <button
+                onClick={changeRoomPassword}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                title="Visitors have to enter the room password before they see anything"
+              >
+                <KeyRound className="w-4 h-4" />
+                Room password
+              </button>
+            )}
+            {roomId !== DEFAULT_ROOM_ID && (
+              <button
+                onClick={() => router.push(roomPath(DEFAULT_ROOM_ID))}
+                className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Back to public room
+              </button>
+            )}
+          </div>
+          {!roomLocked && devices.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+              <span className="inline-flex items-center gap-1.5 text-gray-500">
+                <Users className="w-4 h-4" />
+                Here now:
+              </span>
+              {devices.map(device => {
+                const isMe = device.peerIds.includes(peerId);
+                return (
+                  <span
+                    key={device.peerIds[0]}
+                    className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full ${isMe ? 'bg-blue-100 text-blue-800' : 'bg-white text-gray-700 shadow-sm'}`}
+                  >
+                    <DeviceIcon type={device.type} className="w-4 h-4" />
+                    {device.name ?? 'Unnamed device'}{isMe && ' (you)'}
+                    {isMe && (
+                      <button
+                        onClick={() => renameDevice(device.name)}
+                        className="p-0.5 rounded-full hover:bg-blue-200 transition-colors"
+                        title="Rename this device"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+          {roomKey && (
+            <p className="mt-3 text-sm text-gray-600">
+              Files and texts are encrypted in your browser before upload. Share the full link, including the part after #
+              - the key in it never reaches the server, and without it the files can&apos;t be opened.
+            </p>
+          )}
+        </div>
+
+        {roomLocked ? (
+          <form onSubmit={unlockRoom} className="max-w-sm mx-auto mb-12 bg-white rounded-xl shadow-md p-8 text-center">
+            <Lock className="w-12 h-12 mx-auto mb-3 text-slate-600" />
+            <p className="text-lg font-semibold text-gray-800 mb-1">This room is password protected</p>
+            <p className="text-sm text-gray-500 mb-4">Enter the password to see and share files.</p>
+            <div className="flex items-center gap-2">
+              <input
+                name="password"
+                type="password"
+                required
+                autoFocus
+                placeholder="Room password"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm font-medium hover:bg-blue-600 transition-colors"
+              >
+                Unlock
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="mb-12">
+            <div 
+              className={`relative border-4 border-dashed border-blue-400 rounded-2xl p-12 text-center cursor-pointer hover:border-blue-600 hover:bg-blue-50 transition-all duration-200 ${isUploading ? 'opacity-50 cursor-not-allowed' : ''} ${isDragging ? 'border-blue-600 bg-blue-50' : ''}`}
+              onClick={() => !isUploading && document.getElementById('file-input')?.click()}
+            >
+              <div className="absolute -top-1 left-0 right-0 h-2 bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 rounded-t-2xl"></div>
+              <Upload className="w-16 h-16 mx-auto mb-4 text-blue-500" />
+              <p className="text-xl font-semibold text-gray-700 mb-2">
+                {isUploading ? 'Uploading...' : 'Click to upload, drag and drop, or paste'}
+              </p>
+              <p className="text-sm text-gray-500">
+                Images, videos, documents, audio, APK files, and more
+                {limits?.maxFileSize != null && ` • Up to ${formatLimit(limits.maxFileSize)} per file`}
+              </p>
+              <input
+                id="file-input"
+                type="file"
+                multiple
+                onChange={handleFileUpload}
+                className="hidden"
+                accept="*/*"
+                disabled={isUploading}
+              />
+              <input
+                id="folder-input"
+                type="file"
+                // Not in React's typings, so set as a plain DOM attribute
+                ref={input => input?.setAttribute('webkitdirectory', '')}
+                onChange={handleFileUpload}
+                className="hidden"
+                disabled={isUploading}
+              />
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  document.getElementById('folder-input')?.click();
+                }}
+                disabled={isUploading}
+                className="mt-4 inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 bg-white border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                <FolderUp className="w-4 h-4" />
+                Upload a folder
+              </button>
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                Keep files for
+                <select
+                  value={lifetime}
+                  onChange={(e) => setLifetime(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white focus:outline-none focus:border-blue-500"
+                >
+                  {TTL_OPTIONS.map(option => (
+                    <option key={option.seconds} value={option.seconds.toString()}>{option.label}</option>
+                  ))}
+                  <option value="disconnect">Until I leave</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Burn after
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_DOWNLOADS_LIMIT}
+                  value={burnAfter}
+                  onChange={(e) => setBurnAfter(e.target.value)}
+                  placeholder="∞"
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-500"
+                />
+                downloads
+              </label>
+              <label className="flex items-center gap-2">
+                Password
+                <input
+                  type="password"
+                  value={uploadPassword}
+                  onChange={(e) => setUploadPassword(e.target.value)}
+                  placeholder="None"
+                  autoComplete="new-password"
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              <label
+                className="flex items-center gap-2"
+                title="Files stay on this device and go straight to whoever downloads them, while this page is open"
+              >
+                <input
+                  type="checkbox"
+                  checked={isPeerMode}
+                  onChange={(e) => setIsPeerMode(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+                Send directly (P2P)
+              </label>
+            </div>
+
+            <div className="mt-6 bg-white rounded-xl shadow-sm p-4">
+              <textarea
+                value={snippetText}
+                onChange={(e) => setSnippetText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submitSnippet();
+                }}
+                placeholder="Paste a link, a note or some code to share it as text..."
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:border-blue-500"
+              />
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={snippetTitle}
+                  onChange={(e) => setSnippetTitle(e.target.value)}
+                  placeholder="Title (optional)"
+                  className="flex-1 min-w-40 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+                />
+                <select
+                  value={snippetLanguage}
+                  onChange={(e) => setSnippetLanguage(e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">Detect language</option>
+                  {SNIPPET_LANGUAGES.map(language => (
+                    <option key={language.id} value={language.id}>{language.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={submitSnippet}
+                  disabled={!snippetText.trim() || isSharingSnippet}
+                  className="inline-flex items-center gap-2 px-4 py-1.5 bg-blue-500 text-white rounded-lg text-sm font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                  <Type className="w-4 h-4" />
+                  {isSharingSnippet ? 'Sharing...' : 'Share Text'}
+                </button>
+              </div>
+            </div>
+
+            {uploads.length > 0 && (
+              <div className="mt-6 space-y-3">
+                {uploads.map((upload) => (
+                  <div key={upload.key} className="bg-white rounded-lg shadow-sm p-3">
+                    <div className="flex items-center justify-between gap-3 text-sm">
+                      <p className="font-medium text-gray-700 truncate" title={upload.name}>
+                        {upload.name}
+                      </p>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className={upload.status === 'error' ? 'text-red-600' : 'text-gray-500'}>
+                          {upload.status === 'error'
+                            ? upload.error
+                            : `${formatFileSize(upload.loaded)} / ${formatFileSize(upload.size)}`}
+                        </span>
+                        {upload.status === 'error' && (
+                          <button
+                            onClick={() => setUploads(prev => prev.filter(u => u.key !== upload.key))}
+                            className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+                            title="Dismiss"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full transition-all duration-200 ${upload.status === 'error' ? 'bg-red-400' : 'bg-blue-500'}`}
+                        style={{ width: `${upload.size > 0 ? Math.round(upload.loaded / upload.size * 100) : 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {peerFiles.length > 0 && (
+          <div className="mb-12">
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">
+              Direct Transfers ({peerFiles.length})
+            </h2>
+            <p className="text-sm text-gray-500 mb-6">
+              Sent straight from the sender&apos;s browser while their page is open. If your devices can&apos;t connect directly, the file is uploaded to the server instead.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {peerFiles.map(file => {
+                const isMine = file.peerId === peerId;
+                const download = peerDownloads.get(file.id);
+                return (
+                  <div key={file.id} className="bg-white rounded-xl shadow-md p-4">
+                    <div className="flex items-start gap-3">
+                      <Radio className="w-5 h-5 mt-1 text-blue-500 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-gray-800 truncate" title={file.name}>{file.name}</p>
+                        <p className="text-sm text-gray-500 mt-1">
+                          {formatFileSize(file.size)} • {isMine
+                            ? 'Offered from this page'
+                            : `From ${devices.find(device => device.peerIds.includes(file.peerId))?.name ?? 'another device'}`}
+                        </p>
+                      </div>
+                      {isMine ? (
+                        <button
+                          onClick={() => withdrawPeerFile(file.id).catch(error => {
+                            console.error('Error withdrawing file:', error);
+                            alert(error instanceof Error ? error.message : 'Failed to withdraw file.');
+                          })}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors shrink-0"
+                          title="Stop offering"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => downloadPeerFile(file)}
+                          disabled={download?.status === 'connecting' || download?.status === 'receiving'}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors shrink-0 disabled:opacity-50"
+                          title="Download directly"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                    {download && (
+                      <div className="mt-3 text-xs text-gray-500">
+                        {download.status === 'connecting' && 'Connecting...'}
+                        {download.status === 'receiving' && (
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-blue-500 transition-all duration-200"
+                              style={{ width: `${file.size > 0 ? Math.round(download.loaded / file.size * 100) : 100}%` }}
+                            />
+                          </div>
+                        )}
+                        {download.status === 'fallback' && 'No direct connection - the sender is uploading it to the server instead.'}
+                        {download.status === 'error' && <span className="text-red-600">{download.error}</span>}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {files.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-800">
+                Shared Files ({files.length})
+              </h2>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                {selectedFiles.length > 0 && (
+                  <>
+                    <button
+                      onClick={() => setSelectedIds(new Set())}
+                      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-sm font-medium"
+                    >
+                      Clear Selection
+                    </button>
+                    <a
+                      href={archiveUrl({ ids: selectedFiles.map(file => file.id) })}
+                      className="inline-flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download Selected ({selectedFiles.length})
+                    </a>
+                  </>
+                )}
+                <a
+                  href={archiveUrl()}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
+                >
+                  <Download className="w-4 h-4" />
+                  Download All
+                </a>
+                {isRoomAdmin ? (
+                  <button
+                    onClick={() => clearAllFiles(false)}
+                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors text-sm font-medium"
+                  >
+                    Clear All
+                  </button>
+                ) : files.some(file => file.ownedByMe) && (
+                  <button
+                    onClick={() => clearAllFiles(true)}
+                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors text-sm font-medium"
+                  >
+                    Clear My Files
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {renderFolderContents(fileTree)}
+          </div>
+        )}
+
+        {files.length === 0 && peerFiles.length === 0 && !roomLocked && (
+          <div className="text-center py-16">
+            <File className="w-20 h-20 mx-auto text-gray-300 mb-4" />
+            <p className="text-gray-500 text-lg">
+              No files shared yet. Upload a file to share with everyone!
+            </p>
+          </div>
+        )}
+
+        {isDragging && (
+          <div className="fixed inset-0 z-40 flex items-center justify-center bg-blue-500/20 border-4 border-dashed border-blue-500 pointer-events-none">
+            <div className="flex items-center gap-3 px-8 py-6 bg-white rounded-2xl shadow-xl text-xl font-semibold text-blue-600">
+              <Upload className="w-8 h-8" />
+              {isUploading ? 'Wait for the current upload to finish' : 'Drop files or folders to upload'}
+            </div>
+          </div>
+        )}
+
+        {isSharingRoom && href && (
+          <ShareDialog title="Share this room" url={href} onClose={() => setIsSharingRoom(false)}>
+            {roomKey && (
+              <p className="mt-3 text-sm text-gray-600">The link includes the encryption key - anyone with it can open the files.</p>
+            )}
+          </ShareDialog>
+        )}
+
+        {sharedFile && (
+          <ShareDialog
+            title={sharedFile.name}
+            url={signedLink?.fileId === sharedFile.id ? signedLink.url : fileShareUrl(sharedFile)}
+            onClose={() => {
+              setSharedFile(null);
+              setSignedLink(null);
+            }}
+          >
+            {signedLink?.fileId === sharedFile.id ? (
+              <p className="mt-3 text-sm text-gray-600">
+                Anyone with this link can open the file without a password. {describeRemainingLifetime({ expiresAt: signedLink.expiresAt, downloadsLeft: null, expireOnDisconnect: false }, now)}.
+              </p>
+            ) : (sharedFile.ownedByMe || isRoomAdmin) && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <span>Signed link, valid for</span>
+                <select
+                  value={linkLifetime}
+                  onChange={(e) => setLinkLifetime(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white focus:outline-none focus:border-blue-500"
+                >
+                  {TTL_OPTIONS.map(option => (
+                    <option key={option.seconds} value={option.seconds.toString()}>{option.label}</option>
+                  ))}
+                  <option value={MAX_TTL_SECONDS.toString()}>7 days</option>
+                </select>
+                <button
+                  onClick={() => createSignedLink(sharedFile)}
+                  className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Create
+                </button>
+              </div>
+            )}
+          </ShareDialog>
+        )}
+
+        {viewingFile && (
+          <div 
+            className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+            onClick={() => setOpenedFile(null)}
+          >
+            <div 
+              className="bg-white rounded-2xl max-w-5xl max-h-[90vh] w-full overflow-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="sticky top-0 bg-white border-b p-4 flex items-center justify-between z-10">
+                <div className="flex items-center gap-3">
+                  {getFileIcon(viewingFile)}
+                  <div>
+                    <h3 className="font-bold text-lg">{viewingFile.name}</h3>
+                    <p className="text-sm text-gray-500">{formatFileSize(viewingFile.size)}</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setOpenedFile(null)}
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+              
+              <div className="p-6">
+                {viewingFile.encryptedMeta !== null && !viewingFile.url && (
+                  <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+                    <KeyRound className="w-12 h-12 mb-3" />
+                    <p>{isDecrypting ? 'Decrypting...' : 'This file could not be decrypted with the key in the link'}</p>
+                  </div>
+                )}
+
+                {viewingFile.url && viewingFile.type.startsWith('image/') && (
+                  <NextImage
+                    src={viewingFile.url}
+                    alt={viewingFile.name}
+                    width={0}
+                    height={0}
+                    unoptimized
+                    className="w-full h-auto rounded-lg"
+                  />
+                )}
+                
+                {viewingFile.url && viewingFile.type.startsWith('video/') && (
+                  <video 
+                    src={viewingFile.url} 
+                    controls
+                    className="w-full rounded-lg"
+                    autoPlay
+                  />
+                )}
+                
+                {viewingFile.url && viewingFile.type.startsWith('audio/') && (
+                  <div className="flex flex-col items-center justify-center py-12">
+                    <Music className="w-24 h-24 mb-6 text-purple-600" />
+                    <audio src={viewingFile.url} controls className="w-full max-w-md" autoPlay />
+                  </div>
+                )}
+
+                {viewingFile.kind === 'text' && (
+                  <div className="relative bg-gray-50 rounded-lg p-6">
+                    <button
+                      onClick={() => copySnippet(viewingFile)}
+                      className="absolute top-3 right-3 inline-flex items-center gap-1 px-3 py-1.5 bg-white text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                      {copiedId === viewingFile.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                      {copiedId === viewingFile.id ? 'Copied' : 'Copy'}
+                    </button>
+                    {viewingText === undefined ? (
+                      <p className="text-sm text-gray-500">Loading...</p>
+                    ) : (
+                      <pre
+                        className="text-sm text-gray-700 whitespace-pre-wrap break-words font-mono"
+                        dangerouslySetInnerHTML={{ __html: renderSnippetHtml(viewingText, viewingFile.language) }}
+                      />
+                    )}
+                    {viewingContent && renderPartialNotice(viewingFile, viewingContent)}
+                  </div>
+                )}
+
+                {isTextFile(viewingFile) && viewingFile.kind !== 'text' && !viewerRenderer && (
+                  <div className="bg-gray-50 rounded-lg p-6">
+                    <pre className="text-sm text-gray-700 whitespace-pre-wrap break-words font-mono">
+                      {viewingText ?? 'Loading...'}
+                    </pre>
+                    {viewingContent && renderPartialNotice(viewingFile, viewingContent)}
+                  </div>
+                )}
+
+                {viewingFile.url && normalizeContentType(viewingFile.type) === 'application/pdf' && (
+                  <div className="w-full h-[600px]">
+                    <iframe
+                      src={viewingFile.url}
+                      sandbox=""
+                      className="w-full h-full rounded-lg border"
+                      title={viewingFile.name}
+                    />
+                  </div>
+                )}
+
+                {viewingFile.url && (viewingFile.type.includes('document') || 
+                  viewingFile.type.includes('word') || 
+                  viewingFile.type.includes('msword') ||
+                  viewingFile.type.includes('officedocument')) && (
+                  <div className="text-center py-12">
+                    <FileText className="w-24 h-24 mx-auto mb-4 text-blue-600" />
+                    <p className="text-gray-700 mb-2 text-lg font-semibold">{viewingFile.name}</p>
+                    <p className="text-gray-500 mb-6">Document preview not supported in browser</p>
+                    <a
+                      href={downloadHref(viewingFile)}
+                      download={viewingFile.name}
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                      <Download className="w-5 h-5" />
+                      Download Document
+                    </a>
+                  </div>
+                )}
+
+                {viewingFile.url && isApkFile(viewingFile) && (
+                  <div className="text-center py-12">
+                    <FileText className="w-24 h-24 mx-auto mb-4 text-green-600" />
+                    <p className="text-gray-700 mb-2 text-lg font-semibold">{viewingFile.name}</p>
+                    <p className="text-gray-500 mb-6">Android APK file - Download and install on your Android device</p>
+                    
+                    <div className="bg-yellow-50 border-2 border-yellow-200 rounded-lg p-4 mb-6 max-w-md mx-auto text-left">
+                      <p className="text-sm text-yellow-800 font-semibold mb-2">📱 Installation Instructions:</p>
+                      <ol className="text-sm text-yellow-800 space-y-1 list-decimal list-inside">
+                        <li>Download the APK file</li>
+                        <li>Transfer to your Android phone</li>
+                        <li>Enable &quot;Install from Unknown Sources&quot; in Settings</li>
+                        <li>Open the APK file to install</li>
+                      </ol>
+                      <p className="text-xs text-yellow-700 mt-3">
+                        ⚠️ Only install APK files from trusted sources
+                      </p>
+                    </div>
+                    
+                    <a
+                      href={downloadHref(viewingFile)}
+                      download={viewingFile.name}
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors font-medium"
+                    >
+                      <Download className="w-5 h-5" />
+                      Download APK
+                    </a>
+                  </div>
+                )}
+
+                {viewerRenderer && (
+                  <div className="bg-gray-50 rounded-lg p-6 overflow-auto">
+                    {viewerContent === undefined ? (
+                      <p className="text-sm text-gray-500">
+                        {failedContent.has(contentKey(viewingFile.id, viewerRenderer.source)) ? 'Preview not available' : 'Loading...'}
+                      </p>
+                    ) : (
+                      <>
+                        <viewerRenderer.Preview file={viewingFile} content={viewerContent.text} mode="viewer" />
+                        {renderPartialNotice(viewingFile, viewerContent)}
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {!viewerRenderer && ((!viewingFile.url && viewingFile.encryptedMeta === null) || (!viewingFile.type.startsWith('image/') && 
+                 !viewingFile.type.startsWith('video/') && 
+                 !viewingFile.type.startsWith('audio/') && 
+                 !isTextFile(viewingFile) &&
+                 !viewingFile.type.includes('pdf') &&
+                 !viewingFile.type.includes('document') &&
+                 !viewingFile.type.includes('word') &&
+                 !viewingFile.type.includes('officedocument') &&
+                 !isApkFile(viewingFile))) && (
+                  <div className="text-center py-12">
+                    <div className="w-24 h-24 mx-auto mb-4 text-gray-400 flex items-center justify-center">
+                      {getFileIcon(viewingFile)}
+                    </div>
+                    <p className="text-gray-700 mb-2 text-lg font-semibold">{viewingFile.name}</p>
+                    <p className="text-gray-500 mb-6">Preview not available for this file type</p>
+                    {viewingFile.url && (
+                      <a
+                        href={downloadHref(viewingFile)}
+                        download={viewingFile.name}
+                        className="inline-flex items-center gap-2 px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                      >
+                        <Download className="w-5 h-5" />
+                        Download File
+                      </a>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
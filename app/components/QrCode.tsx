@@ -0,0 +1,34 @@
+'use client';
+import React, { useMemo } from 'react';
+import QRCode from 'qrcode';
+
+// Quiet zone around the code, in modules, as the QR spec asks for
+const MARGIN = 4;
+
+// Renders `value` as an SVG QR code, so a phone can open a link by scanning the screen
+export default function QrCode({ value, size = 192 }: { value: string; size?: number }) {
+  const { count, path } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) path += `M${col + MARGIN} ${row + MARGIN}h1v1h-1z`;
+      }
+    }
+    return { count: modules.size + 2 * MARGIN, path };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${count} ${count}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`QR code for ${value}`}
+    >
+      <rect width={count} height={count} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
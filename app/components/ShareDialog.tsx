@@ -0,0 +1,75 @@
+'use client';
+import React, { useState } from 'react';
+import { X, Copy, Check } from 'lucide-react';
+import QrCode from './QrCode';
+
+// Modal with a link, a copy button and the link's QR code. `children` go
+// between the link and the code, e.g. options that change the link.
+export default function ShareDialog({
+  title,
+  url,
+  onClose,
+  children,
+}: {
+  title: string;
+  url: string;
+  onClose: () => void;
+  children?: React.ReactNode;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+      alert('Failed to copy to the clipboard.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h3 className="font-bold text-lg truncate" title={title}>{title}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={copyLink}
+            className="inline-flex items-center gap-1 px-3 py-2 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+
+        {children}
+
+        <div className="mt-6 flex justify-center">
+          <QrCode value={url} size={224} />
+        </div>
+      </div>
+    </div>
+  );
+}
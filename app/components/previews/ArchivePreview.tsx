@@ -0,0 +1,82 @@
+import { Fragment, useMemo } from 'react';
+import { Folder, File, Package } from 'lucide-react';
+import { formatLimit } from '@/lib/limits';
+import type { ArchiveListing } from '@/lib/zip';
+import type { ApkInfo } from '@/lib/apk';
+import type { PreviewProps } from './types';
+
+const CARD_ENTRIES = 5;
+
+function ApkDetails({ apk, mode }: { apk: ApkInfo; mode: PreviewProps['mode'] }) {
+  const version = [apk.versionName, apk.versionCode && `(${apk.versionCode})`].filter(Boolean).join(' ');
+  if (mode === 'card') {
+    return (
+      <div className="mb-2">
+        <p className="font-semibold text-gray-800 truncate">{apk.label || apk.packageName || 'Android app'}</p>
+        {apk.packageName && <p className="font-mono text-gray-600 truncate">{apk.packageName}</p>}
+        {version && <p className="text-gray-500">Version {version}</p>}
+      </div>
+    );
+  }
+
+  const rows: [string, string | null][] = [
+    ['App name', apk.label],
+    ['Package', apk.packageName],
+    ['Version', version || null],
+    ['Minimum SDK', apk.minSdkVersion],
+    ['Target SDK', apk.targetSdkVersion],
+  ];
+  return (
+    <div className="mb-6">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {rows.filter(([, value]) => value).map(([label, value]) => (
+          <Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="font-mono text-gray-800 break-all">{value}</dd>
+          </Fragment>
+        ))}
+      </dl>
+      {apk.permissions.length > 0 && (
+        <details className="mt-3 text-sm">
+          <summary className="cursor-pointer text-gray-700">{apk.permissions.length} permissions</summary>
+          <ul className="mt-1 ml-4 list-disc font-mono text-xs text-gray-600">
+            {apk.permissions.map(permission => <li key={permission}>{permission}</li>)}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+// Content is the JSON from /api/files/[id]/entries
+export default function ArchivePreview({ content, mode }: PreviewProps) {
+  const listing = useMemo(() => JSON.parse(content) as ArchiveListing & { apk: ApkInfo | null }, [content]);
+  const files = listing.entries.filter(entry => !entry.directory);
+  const shown = mode === 'card' ? files.slice(0, CARD_ENTRIES) : listing.entries;
+
+  return (
+    <div className={mode === 'card' ? 'text-xs' : 'text-sm'}>
+      {listing.apk && <ApkDetails apk={listing.apk} mode={mode} />}
+      <p className="flex items-center gap-1 mb-1 text-gray-600">
+        <Package className="w-4 h-4" />
+        {listing.totalEntries} entries
+      </p>
+      <ul className={mode === 'card' ? 'space-y-0.5' : 'max-h-96 overflow-auto divide-y divide-gray-100'}>
+        {shown.map(entry => (
+          <li key={entry.name} className={`flex items-center gap-2 ${mode === 'viewer' ? 'py-1' : ''}`}>
+            {entry.directory
+              ? <Folder className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+              : <File className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />}
+            <span className="font-mono text-gray-700 truncate">{entry.name}</span>
+            {mode === 'viewer' && !entry.directory && (
+              <span className="ml-auto flex-shrink-0 text-gray-500">{formatLimit(entry.size)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {mode === 'viewer' && listing.truncated && (
+        <p className="mt-2 text-xs text-gray-500">Only the first {listing.entries.length} entries are shown</p>
+      )}
+    </div>
+  );
+}
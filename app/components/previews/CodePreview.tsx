@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { languageForFileName, renderSnippetHtml } from '@/lib/highlight';
+import type { PreviewProps } from './types';
+
+const CARD_LENGTH = 2000;
+
+export default function CodePreview({ file, content, mode }: PreviewProps) {
+  // Unknown extensions fall back to auto detection
+  const html = useMemo(
+    () => renderSnippetHtml(mode === 'card' ? content.slice(0, CARD_LENGTH) : content, languageForFileName(file.name)),
+    [content, mode, file.name]
+  );
+  return (
+    <pre
+      className={`${mode === 'card' ? 'text-xs' : 'text-sm'} text-gray-700 whitespace-pre-wrap break-words font-mono`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { renderMarkdownHtml } from '@/lib/markdown';
+import type { PreviewProps } from './types';
+
+// Cards only show the start, so don't render the whole document for them
+const CARD_LENGTH = 2000;
+
+export default function MarkdownPreview({ content, mode }: PreviewProps) {
+  const html = useMemo(
+    () => renderMarkdownHtml(mode === 'card' ? content.slice(0, CARD_LENGTH) : content),
+    [content, mode]
+  );
+  return (
+    <div
+      className={mode === 'card' ? 'markdown-preview text-xs' : 'markdown-preview text-sm'}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
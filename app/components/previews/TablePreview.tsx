@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { parseDelimited, guessDelimiter, jsonToTable, Table } from '@/lib/tabular';
+import { renderSnippetHtml } from '@/lib/highlight';
+import type { PreviewProps } from './types';
+
+const CARD_ROWS = 6;
+const VIEWER_ROWS = 500;
+
+function TableView({ table, mode }: { table: Table; mode: PreviewProps['mode'] }) {
+  const cellClass = mode === 'card' ? 'px-2 py-1' : 'px-3 py-1.5';
+  return (
+    <div className={mode === 'card' ? 'overflow-hidden' : 'overflow-auto'}>
+      <table className={`${mode === 'card' ? 'text-xs' : 'text-sm'} text-left text-gray-700 border-collapse`}>
+        <thead>
+          <tr className="bg-gray-100">
+            {table.columns.map((column, index) => (
+              <th key={index} className={`${cellClass} font-semibold border border-gray-200 whitespace-nowrap`}>{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {table.columns.map((_, index) => (
+                <td key={index} className={`${cellClass} border border-gray-200 whitespace-nowrap max-w-xs truncate`}>{row[index] ?? ''}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {mode === 'viewer' && table.truncatedRows > 0 && (
+        <p className="mt-2 text-xs text-gray-500">{table.truncatedRows} more rows not shown</p>
+      )}
+    </div>
+  );
+}
+
+export function CsvPreview({ file, content, mode }: PreviewProps) {
+  const table = useMemo(() => {
+    const delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : guessDelimiter(content);
+    return parseDelimited(content, delimiter, mode === 'card' ? CARD_ROWS : VIEWER_ROWS);
+  }, [content, mode, file.name]);
+  return <TableView table={table} mode={mode} />;
+}
+
+// Arrays of records are shown as a table, anything else as highlighted JSON
+export function JsonPreview({ content, mode }: PreviewProps) {
+  const rendered = useMemo(() => {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch {
+      // Invalid JSON is shown as it is
+      return { table: null, html: renderSnippetHtml(mode === 'card' ? content.slice(0, 2000) : content, 'json') };
+    }
+    const table = jsonToTable(value, mode === 'card' ? CARD_ROWS : VIEWER_ROWS);
+    if (table) return { table, html: '' };
+    const text = JSON.stringify(value, null, 2);
+    return { table: null, html: renderSnippetHtml(mode === 'card' ? text.slice(0, 2000) : text, 'json') };
+  }, [content, mode]);
+
+  if (rendered.table) {
+    return <TableView table={rendered.table} mode={mode} />;
+  }
+  return (
+    <pre
+      className={`${mode === 'card' ? 'text-xs' : 'text-sm'} text-gray-700 whitespace-pre-wrap break-words font-mono`}
+      dangerouslySetInnerHTML={{ __html: rendered.html }}
+    />
+  );
+}
@@ -0,0 +1,71 @@
+import type { PreviewFile, PreviewRenderer } from './types';
+import MarkdownPreview from './MarkdownPreview';
+import CodePreview from './CodePreview';
+import { CsvPreview, JsonPreview } from './TablePreview';
+import ArchivePreview from './ArchivePreview';
+
+export type { PreviewFile, PreviewProps, PreviewRenderer, PreviewSource } from './types';
+
+// Inline previews by file type. To support another type, add a renderer here -
+// the file grid and the viewer pick it up through findPreviewRenderer.
+export const PREVIEW_RENDERERS: PreviewRenderer[] = [
+  {
+    id: 'markdown',
+    types: ['text/markdown', 'text/x-markdown'],
+    extensions: ['md', 'markdown', 'mdown'],
+    source: 'raw',
+    Preview: MarkdownPreview,
+  },
+  {
+    id: 'csv',
+    types: ['text/csv', 'text/tab-separated-values'],
+    extensions: ['csv', 'tsv'],
+    source: 'raw',
+    Preview: CsvPreview,
+  },
+  {
+    id: 'json',
+    types: ['application/json', 'application/ld+json', 'application/geo+json'],
+    extensions: ['json', 'geojson', 'jsonld'],
+    source: 'raw',
+    Preview: JsonPreview,
+  },
+  {
+    id: 'code',
+    types: [
+      'text/javascript', 'application/javascript', 'application/x-javascript', 'text/typescript',
+      'text/x-python', 'text/x-c', 'text/x-java-source', 'text/css', 'text/html', 'text/xml',
+      'application/xml', 'application/x-sh', 'application/x-yaml', 'text/yaml', 'application/sql',
+    ],
+    extensions: [
+      'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'kts',
+      'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'php', 'swift', 'dart', 'scala', 'lua', 'pl', 'r',
+      'sh', 'bash', 'zsh', 'ps1', 'bat', 'sql', 'css', 'scss', 'less', 'html', 'htm', 'xml', 'svg',
+      'vue', 'svelte', 'yml', 'yaml', 'toml', 'ini', 'gradle', 'properties', 'diff', 'patch',
+    ],
+    source: 'raw',
+    Preview: CodePreview,
+  },
+  {
+    id: 'archive',
+    types: [
+      'application/zip', 'application/x-zip-compressed', 'application/java-archive',
+      'application/vnd.android.package-archive',
+    ],
+    extensions: ['zip', 'apk', 'jar', 'aar', 'war'],
+    source: 'entries',
+    Preview: ArchivePreview,
+  },
+];
+
+function extensionOf(name: string) {
+  return /\.([a-z0-9]+)$/i.exec(name)?.[1].toLowerCase() ?? null;
+}
+
+// The extension wins over the type, since many text formats are served as text/plain
+export function findPreviewRenderer(file: PreviewFile): PreviewRenderer | null {
+  const extension = extensionOf(file.name);
+  return (extension && PREVIEW_RENDERERS.find(renderer => renderer.extensions.includes(extension)))
+    || PREVIEW_RENDERERS.find(renderer => renderer.types.includes(file.type))
+    || null;
+}
@@ -0,0 +1,28 @@
+import type { ComponentType } from 'react';
+
+// What a preview renders from: the file's own bytes as text (/raw), or the
+// listing of a ZIP-based file (/entries)
+export type PreviewSource = 'raw' | 'entries';
+
+export interface PreviewFile {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface PreviewProps {
+  file: PreviewFile;
+  // Text loaded from the renderer's source
+  content: string;
+  // 'card' renders a compact version for the file grid, 'viewer' the full one
+  mode: 'card' | 'viewer';
+}
+
+export interface PreviewRenderer {
+  id: string;
+  // MIME types and lowercase extensions (without the dot) the renderer handles
+  types: string[];
+  extensions: string[];
+  source: PreviewSource;
+  Preview: ComponentType<PreviewProps>;
+}
@@ -0,0 +1,30 @@
+import { notFound } from 'next/navigation';
+import FileSharePage from '@/app/components/FileSharePage';
+import { DEFAULT_ROOM_ID, isValidRoomId, normalizeRoomId } from '@/lib/rooms';
+
+// Share page of a single file: /f/<id>?room=...&token=... (see sharePath in lib/rooms.ts)
+export default async function SharePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ room?: string | string[]; token?: string | string[] }>;
+}) {
+  const { id } = await params;
+  const { room, token } = await searchParams;
+  const roomId = typeof room === 'string' && room !== '' ? normalizeRoomId(room) : DEFAULT_ROOM_ID;
+
+  if (!isValidRoomId(roomId)) {
+    notFound();
+  }
+
+  let fileId: string;
+  try {
+    fileId = decodeURIComponent(id);
+  } catch {
+    // A malformed escape can't be a file ID either
+    notFound();
+  }
+
+  return <FileSharePage fileId={fileId} roomId={roomId} token={typeof token === 'string' ? token : null} />;
+}
@@ -0,0 +1,32 @@
+import { notFound, redirect } from 'next/navigation';
+import FileUploader from '@/app/components/FileUploader';
+import { isValidRoomId, normalizeRoomId, roomPath } from '@/lib/rooms';
+
+export default async function RoomPage({
+  params,
+}: {
+  params: Promise<{ roomId: string }>;
+}) {
+  const { roomId } = await params;
+  let decodedRoomId: string;
+  try {
+    decodedRoomId = decodeURIComponent(roomId);
+  } catch {
+    // A malformed escape like "/r/%E0%A4%A" can't be a room either
+    notFound();
+  }
+  const normalizedRoomId = normalizeRoomId(decodedRoomId);
+
+  if (!isValidRoomId(normalizedRoomId)) {
+    notFound();
+  }
+
+  // Send "/r/My Room" to "/r/my-room" and "/r/public" to "/"
+  const canonicalPath = roomPath(normalizedRoomId);
+  if (canonicalPath !== `/r/${roomId}`) {
+    redirect(canonicalPath);
+  }
+
+  // Keyed so switching rooms starts from a clean slate
+  return <FileUploader key={normalizedRoomId} roomId={normalizedRoomId} />;
+}
@@ -0,0 +1,429 @@
+import { createWriteStream, existsSync, openAsBlob, renameSync, statSync } from 'fs';
+import { hostname } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { parseArgs } from 'util';
+import { ApiClient, ApiRequestError } from '@/lib/api/client';
+import type { FileMetadata } from '@/lib/api/schemas';
+import { OWNER_COOKIE } from '@/lib/auth';
+import { uploadFileInChunks } from '@/lib/chunkedUpload';
+import { DEVICE_COOKIE, normalizeDeviceName } from '@/lib/devices';
+import { DEFAULT_EXPIRY_POLICY, ExpiryPolicy } from '@/lib/expiry';
+import { checkFile, formatLimit } from '@/lib/limits';
+import { isValidRoomId, normalizeRoomId, sharePath } from '@/lib/rooms';
+import { CliConfig, configResumeStore, loadConfig, saveConfig } from './config';
+import { ProgressBar } from './progress';
+
+// au-share: sends and receives files from the command line, e.g. build
+// artifacts from CI. Talks to the v1 API through lib/api/client.ts; uploads go
+// through the resumable protocol (lib/chunkedUpload.ts), so large files show
+// progress and an interrupted `send` picks up where it stopped.
+
+const USAGE = `Usage: au-share <command> [options]
+
+Commands:
+  send <files...>    Upload files
+  ls                 List the room's files
+  get <id|name>      Download a file (the newest one, if several have that name)
+  rm <id|name...>    Delete files you sent (or any, as room admin)
+  watch              Download new files as they're shared
+  config             Show the settings, or save --server and --room as defaults
+
+Options:
+  --server <url>           Server to use (default: saved config, $AU_SHARE_SERVER or http://localhost:3000)
+  --room <name>            Room to use (default: saved config, $AU_SHARE_ROOM or public)
+  --room-password <pw>     Unlock a password-protected room
+  --json                   Print JSON instead of text, for scripts
+  -h, --help               Show this help
+
+  send:  --ttl <10m|1h|7d|never>, --max-downloads <n>, --password <pw>, --path <folder>
+  ls:    --sort <uploadedAt|name|size>, --desc
+  get:   -o, --output <file or ->, --password <pw>
+  watch: -d, --dir <folder>, --existing (also download the files already there)`;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+const WATCH_RECONNECT_DELAY_MS = 3000;
+
+// Wrong arguments, as opposed to errors from the server
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface Context {
+  config: CliConfig;
+  server: string;
+  roomId: string;
+  json: boolean;
+}
+
+const { values: options, positionals } = parseCommandLine();
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        server: { type: 'string' },
+        room: { type: 'string' },
+        'room-password': { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        ttl: { type: 'string' },
+        'max-downloads': { type: 'string' },
+        password: { type: 'string' },
+        path: { type: 'string' },
+        sort: { type: 'string' },
+        desc: { type: 'boolean' },
+        output: { type: 'string', short: 'o' },
+        dir: { type: 'string', short: 'd' },
+        existing: { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    console.error(`au-share: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exit(2);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The owner cookie, the machine's name as device name (see lib/devices.ts)
+// and any access cookies from unlocking
+function requestHeaders(config: CliConfig) {
+  const deviceName = normalizeDeviceName(hostname());
+  const cookies = {
+    [OWNER_COOKIE]: config.ownerToken,
+    ...(deviceName && { [DEVICE_COOKIE]: encodeURIComponent(deviceName) }),
+    ...config.cookies,
+  };
+  return { Cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ') };
+}
+
+function createClient({ config, server }: Context) {
+  return new ApiClient({ baseUrl: server, headers: requestHeaders(config) });
+}
+
+function parseRoom(room: string) {
+  const roomId = normalizeRoomId(room);
+  if (!isValidRoomId(roomId)) {
+    throw new UsageError(`Invalid room "${room}"`);
+  }
+  return roomId;
+}
+
+// "90", "10m", "1h", "7d" or "never"
+function parseDuration(value: string) {
+  if (value === 'never') return null;
+  const match = /^(\d+)([smhd]?)$/.exec(value);
+  if (!match) {
+    throw new UsageError(`Invalid duration "${value}" (expected e.g. 10m, 1h or 7d)`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] || 's'];
+}
+
+function displayName(file: FileMetadata) {
+  const name = file.path ? `${file.path}/${file.name}` : file.name;
+  return file.encryptedMeta !== null ? `${name} (encrypted)` : name;
+}
+
+function print(ctx: Context, json: unknown, text: string) {
+  console.log(ctx.json ? JSON.stringify(json, null, 2) : text);
+}
+
+// Unlocks a password-protected room or file; the access cookie is kept in the config
+async function unlock(ctx: Context, url: string, password: string) {
+  const response = await fetch(ctx.server + url, {
+    method: 'POST',
+    headers: { ...requestHeaders(ctx.config), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to unlock');
+  }
+  for (const cookie of response.headers.getSetCookie()) {
+    const [name, value] = cookie.split(';')[0].split('=');
+    ctx.config.cookies[name] = value;
+  }
+  saveConfig(ctx.config);
+}
+
+// By ID, or by name (with or without its folder), newest first
+function findFiles(files: FileMetadata[], ref: string) {
+  const byId = files.find(file => file.id === ref);
+  if (byId) return [byId];
+  return files
+    .filter(file => file.name === ref || (file.path && `${file.path}/${file.name}` === ref))
+    .sort((a, b) => b.uploadedAt - a.uploadedAt);
+}
+
+// Picks "name (1).ext", "name (2).ext", ... when a file of that name already exists
+function freePath(target: string) {
+  const { dir, name, ext } = path.parse(target);
+  let candidate = target;
+  for (let copy = 1; existsSync(candidate); copy++) {
+    candidate = path.join(dir, `${name} (${copy})${ext}`);
+  }
+  return candidate;
+}
+
+// Streams the file's content to `target` ("-" for stdout). Files are written
+// under a temporary name first, so a half-finished download is never mistaken for the file.
+async function download(ctx: Context, file: FileMetadata, target: string) {
+  const client = createClient(ctx);
+  const response = await fetch(client.contentUrl(ctx.roomId, file.id, { download: true }), { headers: requestHeaders(ctx.config) });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message || `Failed to download ${file.name}`);
+  }
+
+  const toStdout = target === '-';
+  const bar = toStdout ? null : new ProgressBar(file.name, file.size);
+  let loaded = 0;
+  const partialPath = `${target}.part`;
+  await pipeline(
+    Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>),
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        loaded += chunk.length;
+        bar?.update(loaded);
+        yield chunk;
+      }
+    },
+    toStdout ? process.stdout : createWriteStream(partialPath),
+  );
+  bar?.done();
+  if (!toStdout) renameSync(partialPath, target);
+}
+
+async function send(ctx: Context, paths: string[]) {
+  if (paths.length === 0) throw new UsageError('send needs at least one file');
+  const expiry: ExpiryPolicy = {
+    ...DEFAULT_EXPIRY_POLICY,
+    ...(options.ttl !== undefined && { ttlSeconds: parseDuration(options.ttl) }),
+    ...(options['max-downloads'] !== undefined && { maxDownloads: Number(options['max-downloads']) }),
+  };
+  const { limits } = await createClient(ctx).getRoom(ctx.roomId);
+
+  const sent = [];
+  for (const filePath of paths) {
+    const stats = statSync(filePath);
+    if (!stats.isFile()) throw new UsageError(`${filePath} is not a file`);
+    // Read from disk as it's sent, so large artifacts don't have to fit in memory
+    const file = new File([await openAsBlob(filePath)], path.basename(filePath), { lastModified: stats.mtimeMs });
+    checkFile(limits, file);
+
+    const bar = new ProgressBar(file.name, file.size);
+    const uploaded = await uploadFileInChunks(file, {
+      roomId: ctx.roomId,
+      expiry,
+      path: options.path,
+      password: options.password,
+      server: { baseUrl: ctx.server, headers: requestHeaders(ctx.config) },
+      resumeStore: configResumeStore(ctx.config),
+      onProgress: loaded => bar.update(loaded),
+    });
+    bar.done();
+
+    const url = ctx.server + sharePath(uploaded.id, ctx.roomId);
+    sent.push({ ...uploaded, url });
+    if (!ctx.json) console.log(`Sent ${file.name} (${formatLimit(file.size)}): ${url}`);
+  }
+  if (ctx.json) console.log(JSON.stringify(sent, null, 2));
+}
+
+async function list(ctx: Context) {
+  const sort = options.sort ?? 'uploadedAt';
+  if (sort !== 'uploadedAt' && sort !== 'name' && sort !== 'size') {
+    throw new UsageError(`Invalid sort "${sort}" (expected uploadedAt, name or size)`);
+  }
+  const files = await createClient(ctx).listAllFiles(ctx.roomId, { sort, order: options.desc ? 'desc' : 'asc' });
+  const rows = files.map(file => [
+    file.id,
+    formatLimit(file.size),
+    new Date(file.uploadedAt).toLocaleString(),
+    displayName(file) + (file.passwordProtected ? ' [password]' : ''),
+  ]);
+  const widths = [0, 1, 2].map(column => Math.max(...rows.map(row => row[column].length)));
+  print(ctx, files, files.length === 0
+    ? `No files in ${ctx.roomId}`
+    : rows.map(row => row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ')).join('\n'));
+}
+
+async function get(ctx: Context, ref: string | undefined) {
+  if (!ref) throw new UsageError('get needs a file ID or name');
+  const [file] = findFiles(await createClient(ctx).listAllFiles(ctx.roomId), ref);
+  if (!file) throw new Error(`No file "${ref}" in ${ctx.roomId}`);
+  if (file.encryptedMeta !== null) {
+    throw new Error(`${file.id} is end-to-end encrypted - open it in the browser with the room link`);
+  }
+  if (file.requiresPassword) {
+    if (!options.password) throw new UsageError(`${file.name} is password protected (use --password)`);
+    await unlock(ctx, `/api/files/${encodeURIComponent(file.id)}/unlock?room=${ctx.roomId}`, options.password);
+  }
+
+  const target = options.output ?? freePath(path.basename(file.name));
+  await download(ctx, file, target);
+  if (target !== '-') print(ctx, { ...file, savedTo: target }, `Saved ${file.name} to ${target}`);
+}
+
+async function remove(ctx: Context, refs: string[]) {
+  if (refs.length === 0) throw new UsageError('rm needs at least one file ID or name');
+  const client = createClient(ctx);
+  const files = await client.listAllFiles(ctx.roomId);
+  const removed = [];
+  for (const ref of refs) {
+    const matches = findFiles(files, ref);
+    if (matches.length === 0) throw new Error(`No file "${ref}" in ${ctx.roomId}`);
+    if (matches.length > 1) {
+      throw new Error(`"${ref}" matches several files, use one of the IDs: ${matches.map(file => file.id).join(', ')}`);
+    }
+    await client.deleteFile(ctx.roomId, matches[0].id);
+    removed.push(matches[0]);
+    if (!ctx.json) console.log(`Removed ${displayName(matches[0])}`);
+  }
+  if (ctx.json) console.log(JSON.stringify(removed, null, 2));
+}
+
+interface ServerSentEvent {
+  type: string;
+  data: string;
+  id: string | null;
+}
+
+// Splits a text/event-stream body into events; comment lines (heartbeats) are skipped
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let end;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const event: ServerSentEvent = { type: 'message', data: '', id: null };
+      for (const line of buffer.slice(0, end).split('\n')) {
+        const [field, ...rest] = line.split(':');
+        const value = rest.join(':').replace(/^ /, '');
+        if (field === 'event') event.type = value;
+        else if (field === 'data') event.data += value;
+        else if (field === 'id') event.id = value;
+      }
+      buffer = buffer.slice(end + 2);
+      if (event.data) yield event;
+    }
+  }
+}
+
+// Follows the room's push channel (the same one the page uses) and downloads
+// every file someone else shares. With --json, prints one line per download.
+async function watch(ctx: Context) {
+  const dir = options.dir ?? '.';
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) throw new UsageError(`${dir} is not a folder`);
+  const seen = new Set<string>();
+  let lastEventId: string | null = null;
+  let skipExisting = !options.existing;
+
+  const receive = async (file: FileMetadata) => {
+    if (seen.has(file.id) || file.ownedByMe) return;
+    seen.add(file.id);
+    if (file.encryptedMeta !== null || file.requiresPassword) {
+      console.error(`Skipping ${displayName(file)}: ${file.encryptedMeta !== null ? 'end-to-end encrypted' : 'password protected'}`);
+      return;
+    }
+    const target = freePath(path.join(dir, path.basename(file.name)));
+    try {
+      await download(ctx, file, target);
+      console.log(ctx.json ? JSON.stringify({ ...file, savedTo: target }) : `Saved ${file.name} to ${target}`);
+    } catch (error) {
+      console.error(`Failed to download ${file.name}:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  console.error(`Watching ${ctx.roomId} on ${ctx.server} (Ctrl+C to stop)`);
+  for (;;) {
+    try {
+      const response: Response = await fetch(`${ctx.server}/api/files/stream?room=${ctx.roomId}`, {
+        headers: {
+          ...requestHeaders(ctx.config),
+          Accept: 'text/event-stream',
+          ...(lastEventId !== null && { 'Last-Event-ID': lastEventId }),
+        },
+      });
+      if (response.status === 401) throw new UsageError('This room is password protected (use --room-password)');
+      if (!response.ok || !response.body) throw new Error(`Stream failed with status ${response.status}`);
+
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.id !== null) lastEventId = event.id;
+        if (event.type === 'snapshot') {
+          const { files } = JSON.parse(event.data) as { files: FileMetadata[] };
+          for (const file of files) {
+            if (skipExisting) seen.add(file.id);
+            else await receive(file);
+          }
+          skipExisting = false;
+        } else if (event.type === 'file-added') {
+          await receive((JSON.parse(event.data) as { file: FileMetadata }).file);
+        }
+      }
+    } catch (error) {
+      if (error instanceof UsageError) throw error;
+      console.error('Connection lost, reconnecting:', error instanceof Error ? error.message : error);
+    }
+    await sleep(WATCH_RECONNECT_DELAY_MS);
+  }
+}
+
+function configure(ctx: Context) {
+  if (options.server) ctx.config.server = ctx.server;
+  if (options.room) ctx.config.room = ctx.roomId;
+  if (options.server || options.room) saveConfig(ctx.config);
+  print(ctx, { server: ctx.config.server, room: ctx.config.room }, `server: ${ctx.config.server}\nroom:   ${ctx.config.room}`);
+}
+
+async function main() {
+  const [command, ...args] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = loadConfig();
+  const ctx: Context = {
+    config,
+    server: (options.server ?? process.env.AU_SHARE_SERVER ?? config.server).replace(/\/+$/, ''),
+    roomId: parseRoom(options.room ?? process.env.AU_SHARE_ROOM ?? config.room),
+    json: Boolean(options.json),
+  };
+  if (options['room-password']) {
+    await unlock(ctx, `/api/rooms/unlock?room=${ctx.roomId}`, options['room-password']);
+  }
+
+  switch (command) {
+    case 'send': return send(ctx, args);
+    case 'ls': return list(ctx);
+    case 'get': return get(ctx, args[0]);
+    case 'rm': return remove(ctx, args);
+    case 'watch': return watch(ctx);
+    case 'config': return configure(ctx);
+    default: throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main().catch(error => {
+  if (error instanceof UsageError) {
+    console.error(`au-share: ${error.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  const hint = error instanceof ApiRequestError && error.code === 'password_required' && error.details?.scope === 'room'
+    ? ' (use --room-password)'
+    : '';
+  console.error(`au-share: ${error instanceof Error ? error.message : error}${hint}`);
+  process.exit(1);
+});
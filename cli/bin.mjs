@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// Entry point of the `au-share` command. Runs the TypeScript source through
+// tsx with this project's tsconfig, so the `@/` imports resolve from any directory.
+import { spawnSync } from 'child_process';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const result = spawnSync(process.execPath, [
+  require.resolve('tsx/cli'),
+  '--tsconfig', fileURLToPath(new URL('../tsconfig.json', import.meta.url)),
+  fileURLToPath(new URL('./au-share.ts', import.meta.url)),
+  ...process.argv.slice(2),
+], { stdio: 'inherit' });
+process.exit(result.status ?? 1);
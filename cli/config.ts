@@ -0,0 +1,63 @@
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import path from 'path';
+import type { ResumeStore } from '@/lib/chunkedUpload';
+
+// Settings of the CLI, kept in ~/.config/au-share/config.json ($AU_SHARE_CONFIG
+// to use another file). The owner token identifies this machine to the server
+// like the owner cookie identifies a browser, so `rm` works on files sent
+// from here and `send` can resume interrupted uploads.
+
+export const DEFAULT_SERVER = 'http://localhost:3000';
+
+export interface CliConfig {
+  server: string;
+  room: string;
+  ownerToken: string;
+  // Access cookies from unlocking password-protected rooms and files, by name
+  cookies: Record<string, string>;
+  // Upload IDs of unfinished uploads (see lib/chunkedUpload.ts)
+  uploads: Record<string, string>;
+}
+
+function configPath() {
+  return process.env.AU_SHARE_CONFIG || path.join(homedir(), '.config', 'au-share', 'config.json');
+}
+
+export function loadConfig(): CliConfig {
+  const saved: Partial<CliConfig> = existsSync(configPath())
+    ? JSON.parse(readFileSync(configPath(), 'utf8'))
+    : {};
+  const config: CliConfig = {
+    server: saved.server ?? DEFAULT_SERVER,
+    room: saved.room ?? 'public',
+    // Same format as the tokens proxy.ts hands out
+    ownerToken: saved.ownerToken ?? randomBytes(32).toString('base64url'),
+    cookies: saved.cookies ?? {},
+    uploads: saved.uploads ?? {},
+  };
+  if (!saved.ownerToken) saveConfig(config);
+  return config;
+}
+
+export function saveConfig(config: CliConfig) {
+  mkdirSync(path.dirname(configPath()), { recursive: true });
+  // The owner token is as good as a password for the files sent from here
+  writeFileSync(configPath(), JSON.stringify(config, null, 2) + '\n', { mode: 0o600 });
+}
+
+// Keeps upload IDs in the config file, so a new `send` of the same file resumes it
+export function configResumeStore(config: CliConfig): ResumeStore {
+  return {
+    getItem: key => config.uploads[key] ?? null,
+    setItem: (key, value) => {
+      config.uploads[key] = value;
+      saveConfig(config);
+    },
+    removeItem: key => {
+      delete config.uploads[key];
+      saveConfig(config);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { formatLimit } from '@/lib/limits';
+
+const BAR_WIDTH = 24;
+// Redrawing more often than this only makes the terminal flicker
+const REDRAW_INTERVAL_MS = 100;
+
+// One-line progress bar on stderr, so stdout stays clean for --json output.
+// Nothing is drawn when stderr isn't a terminal (e.g. CI logs).
+export class ProgressBar {
+  private enabled = Boolean(process.stderr.isTTY);
+  private startedAt = Date.now();
+  private lastDrawnAt = 0;
+
+  constructor(private label: string, private total: number) {}
+
+  update(loaded: number) {
+    const now = Date.now();
+    if (!this.enabled || (now - this.lastDrawnAt < REDRAW_INTERVAL_MS && loaded < this.total)) return;
+    this.lastDrawnAt = now;
+
+    const fraction = this.total > 0 ? Math.min(loaded / this.total, 1) : 1;
+    const filled = Math.round(fraction * BAR_WIDTH);
+    const seconds = Math.max((now - this.startedAt) / 1000, 0.001);
+    const line = `${this.label} [${'#'.repeat(filled)}${'.'.repeat(BAR_WIDTH - filled)}] ` +
+      `${Math.floor(fraction * 100)}% ${formatLimit(loaded)}/${formatLimit(this.total)} ${formatLimit(Math.round(loaded / seconds))}/s`;
+    process.stderr.write(`\r${line.slice(0, process.stderr.columns - 1)}\x1b[K`);
+  }
+
+  done() {
+    if (this.enabled) process.stderr.write('\n');
+  }
+}
@@ -0,0 +1,44 @@
+import { createServer } from 'http';
+import { parseArgs } from 'util';
+import { verifyWebhookSignature } from '@/lib/webhooks';
+
+// Stand-in webhook receiver for trying out WEBHOOKS locally (see lib/webhooks.ts).
+// Prints every delivery with its signature check; --fail answers the first
+// deliveries with a 500, to watch the retries.
+//   npm run webhook-receiver -- --port 4000 --secret s3cret --fail 2
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '4000' },
+    secret: { type: 'string' },
+    fail: { type: 'string', default: '0' },
+  },
+});
+
+let failuresLeft = Number(values.fail);
+
+const server = createServer(async (request, response) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk);
+  const body = Buffer.concat(chunks).toString('utf8');
+
+  const header = (name: string) => String(request.headers[name] ?? '');
+  let signature = 'unsigned';
+  if (values.secret && header('x-au-signature')) {
+    const valid = verifyWebhookSignature(values.secret, header('x-au-timestamp'), body, header('x-au-signature'));
+    signature = valid ? 'signature ok' : 'BAD SIGNATURE';
+  }
+  const failing = failuresLeft > 0;
+  if (failing) failuresLeft--;
+
+  console.log(`${request.method} ${request.url} ${header('x-au-event')} #${header('x-au-delivery')} ` +
+    `attempt ${header('x-au-attempt')}, ${signature}${failing ? ', answering 500' : ''}`);
+  console.log(body);
+
+  response.statusCode = failing ? 500 : 204;
+  response.end();
+});
+
+server.listen(Number(values.port), () => {
+  console.log(`Listening on http://localhost:${values.port}`);
+});
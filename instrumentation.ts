@@ -0,0 +1,12 @@
+// Runs once when the server starts (see https://nextjs.org/docs/app/guides/instrumentation)
+export async function register() {
+  // The file store and mDNS (UDP sockets) need the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Room admins and passwords are loaded before the first request is served
+    const { fileStore } = await import('./lib/fileStore');
+    await fileStore.ready();
+
+    const { startMdnsAdvertisement } = await import('./lib/mdns');
+    startMdnsAdvertisement();
+  }
+}
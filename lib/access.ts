@@ -0,0 +1,130 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { fileStore } from '@/lib/fileStore';
+import { getOwnerId } from '@/lib/auth';
+import type { StoredFileInfo } from '@/lib/storage';
+
+// Access to password-protected files and rooms (see lib/passwords.ts).
+// Unlocking with the right password issues a short-lived token for that one
+// file or room, signed with a server secret. Browsers get it as an HttpOnly
+// cookie, so media elements and downloads carry it too; API clients can send
+// it as `Authorization: Bearer <token>` instead. Uploaders never need the
+// password for their own files, nor room admins for their room.
+// Signed share links (`/f/<id>?token=...`) carry a longer-lived `link:` token
+// that opens that one file, whatever the file and room passwords.
+
+export const ACCESS_TOKEN_TTL_SECONDS = 30 * 60;
+const ACCESS_COOKIE_PREFIX = 'au_access_';
+
+export type AccessScope = `file:${string}` | `room:${string}` | `link:${string}`;
+
+// Thrown when a request needs a password it hasn't unlocked
+export class AccessError extends Error {
+  readonly status = 401;
+
+  constructor(message: string, public scope: 'file' | 'room') {
+    super(message);
+    this.name = 'AccessError';
+  }
+
+  toJSON() {
+    return { error: this.message, code: 'password_required', scope: this.scope };
+  }
+}
+
+// Tokens don't survive a restart unless the secret is configured
+const globalForAccess = globalThis as unknown as { accessTokenSecret?: Buffer };
+const secret = globalForAccess.accessTokenSecret ??
+  (process.env.ACCESS_TOKEN_SECRET ? Buffer.from(process.env.ACCESS_TOKEN_SECRET) : randomBytes(32));
+globalForAccess.accessTokenSecret = secret;
+
+function sign(payload: string) {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// "<scope>.<expiry in seconds>.<signature>"
+export function createAccessToken(scope: AccessScope, ttlSeconds = ACCESS_TOKEN_TTL_SECONDS) {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload = `${Buffer.from(scope).toString('base64url')}.${expiresAt}`;
+  return { token: `${payload}.${sign(payload)}`, expiresAt: expiresAt * 1000 };
+}
+
+// Returns the token's scope, or null if it's forged or expired
+function verifyAccessToken(token: string): AccessScope | null {
+  const [scope, expiresAt, signature] = token.split('.');
+  if (!signature) return null;
+
+  const expected = Buffer.from(sign(`${scope}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  if (Number(expiresAt) * 1000 <= Date.now()) return null;
+  return Buffer.from(scope, 'base64url').toString() as AccessScope;
+}
+
+function accessCookieName(scope: AccessScope) {
+  return ACCESS_COOKIE_PREFIX + scope.replace(':', '_');
+}
+
+export function setAccessCookie(request: NextRequest, response: NextResponse, scope: AccessScope, token: string) {
+  response.cookies.set(accessCookieName(scope), token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+// What a request may see: who is asking, and which files and rooms it has unlocked
+export interface AccessGrants {
+  ownerId: string | null;
+  scopes: Set<AccessScope>;
+}
+
+export function getAccessGrants(request: NextRequest): AccessGrants {
+  const tokens = request.cookies.getAll()
+    .filter(cookie => cookie.name.startsWith(ACCESS_COOKIE_PREFIX))
+    .map(cookie => cookie.value);
+  const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '')?.[1];
+  if (bearer) tokens.push(bearer);
+  // Share links pass their token in the URL, so media elements and downloads work without headers
+  const linkToken = request.nextUrl.searchParams.get('token');
+  if (linkToken) tokens.push(linkToken);
+
+  const scopes = new Set<AccessScope>();
+  for (const token of tokens) {
+    const scope = verifyAccessToken(token);
+    if (scope) scopes.add(scope);
+  }
+  return { ownerId: getOwnerId(request), scopes };
+}
+
+export function canAccessRoom(grants: AccessGrants, roomId: string) {
+  return !fileStore.isRoomProtected(roomId) ||
+    fileStore.isRoomAdmin(roomId, grants.ownerId) ||
+    grants.scopes.has(`room:${roomId}`);
+}
+
+export function hasShareLink(grants: AccessGrants, fileId: string) {
+  return grants.scopes.has(`link:${fileId}`);
+}
+
+// Whether the file's own password is unlocked; the room is checked separately
+export function canReadFile(grants: AccessGrants, file: StoredFileInfo) {
+  return file.passwordHash === null || file.ownerId === grants.ownerId ||
+    grants.scopes.has(`file:${file.id}`) || hasShareLink(grants, file.id);
+}
+
+export function checkRoomAccess(grants: AccessGrants, roomId: string) {
+  if (!canAccessRoom(grants, roomId)) {
+    throw new AccessError('This room is password protected', 'room');
+  }
+}
+
+export function checkFileAccess(grants: AccessGrants, file: StoredFileInfo) {
+  if (hasShareLink(grants, file.id)) return;
+  checkRoomAccess(grants, file.roomId);
+  if (!canReadFile(grants, file)) {
+    throw new AccessError('This file is password protected', 'file');
+  }
+}
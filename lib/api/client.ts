@@ -0,0 +1,142 @@
+// Typed client of the public API (/api/v1), used by the page and usable from
+// any other TypeScript program. Responses are checked against the same
+// schemas the server uses, and error responses become ApiRequestErrors.
+
+import type { z } from 'zod';
+import type { ExpiryPolicy } from '@/lib/expiry';
+import {
+  ApiErrorBodySchema,
+  ApiErrorCode,
+  FileListQuery,
+  FileListSchema,
+  FileMetadata,
+  FileResponseSchema,
+  FilesResponseSchema,
+  MAX_PAGE_SIZE,
+  RoomResponseSchema,
+} from './schemas';
+
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: ApiErrorCode,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export interface ApiClientOptions {
+  // Origin of the server, e.g. "http://192.168.1.20:3000"; the page's own origin by default
+  baseUrl?: string;
+  // Share link token or unlock token of a password-protected file or room
+  token?: string;
+  // Sent with every request, e.g. the owner cookie outside a browser
+  headers?: Record<string, string>;
+}
+
+export interface UploadOptions {
+  // Folder of each file, in the same order (see lib/folders.ts)
+  paths?: string[];
+  expiry?: ExpiryPolicy;
+  password?: string;
+}
+
+export class ApiClient {
+  constructor(private options: ApiClientOptions = {}) {}
+
+  async getRoom(roomId: string) {
+    return (await this.request(this.roomPath(roomId), {}, RoomResponseSchema)).data;
+  }
+
+  async createRoom(body: { roomId?: string; password?: string } = {}) {
+    return (await this.request('/api/v1/rooms', this.jsonBody('POST', body), RoomResponseSchema)).data;
+  }
+
+  // One page of the room's files, with the paging info to fetch the next one
+  listFiles(roomId: string, query: FileListQuery = {}) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([name, value]) => {
+      if (value !== undefined) params.set(name, String(value));
+    });
+    return this.request(`${this.roomPath(roomId)}/files?${params}`, {}, FileListSchema);
+  }
+
+  // Every file of the room, fetched page by page
+  async listAllFiles(roomId: string, query: Pick<FileListQuery, 'sort' | 'order'> = {}) {
+    const files: FileMetadata[] = [];
+    let offset: number | null = 0;
+    while (offset !== null) {
+      const { data, page } = await this.listFiles(roomId, { ...query, limit: MAX_PAGE_SIZE, offset });
+      files.push(...data);
+      offset = page.nextOffset;
+    }
+    return files;
+  }
+
+  async getFile(roomId: string, fileId: string) {
+    return (await this.request(this.filePath(roomId, fileId), {}, FileResponseSchema)).data;
+  }
+
+  async uploadFiles(roomId: string, files: File[], { paths, expiry, password }: UploadOptions = {}) {
+    const body = new FormData();
+    files.forEach((file, index) => {
+      body.append('files', file);
+      if (paths) body.append('paths', paths[index] ?? '');
+    });
+    if (expiry) {
+      if (expiry.ttlSeconds !== null) body.set('ttlSeconds', String(expiry.ttlSeconds));
+      if (expiry.maxDownloads !== null) body.set('maxDownloads', String(expiry.maxDownloads));
+      body.set('untilDisconnect', String(expiry.untilDisconnect));
+    }
+    if (password) body.set('password', password);
+    return (await this.request(`${this.roomPath(roomId)}/files`, { method: 'POST', body }, FilesResponseSchema)).data;
+  }
+
+  async deleteFile(roomId: string, fileId: string) {
+    await this.request(this.filePath(roomId, fileId), { method: 'DELETE' });
+  }
+
+  // Room admins clear the whole room; with `mine`, only the caller's own files go
+  async clearFiles(roomId: string, { mine = false } = {}) {
+    await this.request(`${this.roomPath(roomId)}/files${mine ? '?mine=true' : ''}`, { method: 'DELETE' });
+  }
+
+  // Downloading the content goes through fetch or a link directly, since it isn't JSON
+  contentUrl(roomId: string, fileId: string, { download = false } = {}) {
+    return `${this.options.baseUrl ?? ''}${this.filePath(roomId, fileId)}/content${download ? '?download=1' : ''}`;
+  }
+
+  private roomPath(roomId: string) {
+    return `/api/v1/rooms/${encodeURIComponent(roomId)}`;
+  }
+
+  private filePath(roomId: string, fileId: string) {
+    return `${this.roomPath(roomId)}/files/${encodeURIComponent(fileId)}`;
+  }
+
+  private jsonBody(method: string, body: unknown): RequestInit {
+    return { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+  }
+
+  private request(path: string, init: RequestInit): Promise<void>;
+  private request<T extends z.ZodType>(path: string, init: RequestInit, schema: T): Promise<z.infer<T>>;
+  private async request(path: string, init: RequestInit, schema?: z.ZodType) {
+    const headers = new Headers(init.headers);
+    Object.entries(this.options.headers ?? {}).forEach(([name, value]) => headers.set(name, value));
+    if (this.options.token) headers.set('Authorization', `Bearer ${this.options.token}`);
+
+    const response = await fetch(`${this.options.baseUrl ?? ''}${path}`, { ...init, headers });
+    if (!response.ok) {
+      const body = ApiErrorBodySchema.safeParse(await response.json().catch(() => null));
+      if (body.success) {
+        const { message, code, details } = body.data.error;
+        throw new ApiRequestError(message, response.status, code, details);
+      }
+      throw new ApiRequestError(`Request failed with status ${response.status}`, response.status, 'internal_error');
+    }
+    return schema ? schema.parse(await response.json()) : undefined;
+  }
+}
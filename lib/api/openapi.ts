@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { OWNER_COOKIE } from '@/lib/auth';
+import { apiSchemas, FileListQuerySchema } from './schemas';
+
+// OpenAPI document of /api/v1, generated from the schemas in ./schemas.ts so
+// it can't drift from what the routes accept. Served at /api/v1/openapi.json.
+
+type JsonSchema = Record<string, unknown>;
+
+function ref(id: string) {
+  return { $ref: `#/components/schemas/${id}` };
+}
+
+// The generator adds JSON Schema headers that don't belong inside an OpenAPI document
+function withoutHeaders(schema: JsonSchema) {
+  const rest = { ...schema };
+  delete rest.$schema;
+  delete rest.$id;
+  return rest;
+}
+
+function json(description: string, schemaId: string) {
+  return { description, content: { 'application/json': { schema: ref(schemaId) } } };
+}
+
+const errorResponse = json('Error, see `error.code`', 'Error');
+
+const roomIdParameter = { name: 'roomId', in: 'path', required: true, schema: { type: 'string' }, description: 'Room name, e.g. "public"' };
+const fileIdParameter = { name: 'fileId', in: 'path', required: true, schema: { type: 'string' } };
+
+function queryParameters(schema: z.ZodObject) {
+  return Object.entries(schema.shape).map(([name, field]) => ({
+    name,
+    in: 'query',
+    required: false,
+    schema: withoutHeaders(z.toJSONSchema(field as z.ZodType, { io: 'input' })),
+  }));
+}
+
+export function createOpenApiDocument() {
+  const { schemas } = z.toJSONSchema(apiSchemas, { uri: id => `#/components/schemas/${id}`, io: 'output' });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AU Media API',
+      version: '1.0.0',
+      description: 'Share files through rooms. Every caller gets an owner cookie on its first request, which identifies it as the uploader of its files and the admin of rooms it creates. Password-protected files and rooms take the token from their unlock endpoint as a Bearer token.',
+    },
+    security: [{ ownerCookie: [] }, { accessToken: [] }],
+    paths: {
+      '/api/v1/rooms': {
+        post: {
+          summary: 'Create a room and become its admin',
+          requestBody: { content: { 'application/json': { schema: ref('CreateRoomBody') } } },
+          responses: {
+            200: json('The room, if the caller already is its admin', 'RoomResponse'),
+            201: json('The new room', 'RoomResponse'),
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/v1/rooms/{roomId}': {
+        parameters: [roomIdParameter],
+        get: {
+          summary: 'Get a room, its storage and upload limits',
+          responses: { 200: json('The room', 'RoomResponse'), default: errorResponse },
+        },
+      },
+      '/api/v1/rooms/{roomId}/files': {
+        parameters: [roomIdParameter],
+        get: {
+          summary: 'List the files of a room',
+          parameters: queryParameters(FileListQuerySchema),
+          responses: { 200: json('One page of files', 'FileList'), default: errorResponse },
+        },
+        post: {
+          summary: 'Upload files',
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['files'],
+                  properties: {
+                    files: { type: 'array', items: { type: 'string', format: 'binary' } },
+                    paths: { type: 'array', items: { type: 'string' }, description: 'Folder of each file, in the same order' },
+                    ttlSeconds: { type: 'integer' },
+                    maxDownloads: { type: 'integer' },
+                    untilDisconnect: { type: 'boolean' },
+                    password: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: { 201: json('The uploaded files', 'FilesResponse'), default: errorResponse },
+        },
+        delete: {
+          summary: 'Clear the room (room admins), or only your own files',
+          parameters: [{ name: 'mine', in: 'query', required: false, schema: { type: 'boolean' } }],
+          responses: { 204: { description: 'Cleared' }, default: errorResponse },
+        },
+      },
+      '/api/v1/rooms/{roomId}/files/{fileId}': {
+        parameters: [roomIdParameter, fileIdParameter],
+        get: {
+          summary: "Get a file's metadata",
+          responses: { 200: json('The file', 'FileResponse'), default: errorResponse },
+        },
+        delete: {
+          summary: 'Delete a file (uploader or room admin)',
+          responses: { 204: { description: 'Deleted' }, default: errorResponse },
+        },
+      },
+      '/api/v1/rooms/{roomId}/files/{fileId}/content': {
+        parameters: [roomIdParameter, fileIdParameter],
+        get: {
+          summary: "Download a file's content",
+          description: 'Supports Range requests. Counts as a download for files with a download limit.',
+          parameters: [{ name: 'download', in: 'query', required: false, schema: { type: 'string' }, description: 'Set to get an attachment instead of an inline response' }],
+          responses: {
+            200: { description: 'The file', content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+            206: { description: 'Part of the file' },
+            default: errorResponse,
+          },
+        },
+      },
+    },
+    components: {
+      schemas: Object.fromEntries(Object.entries(schemas).map(([id, schema]) => [id, withoutHeaders(schema)])),
+      securitySchemes: {
+        ownerCookie: { type: 'apiKey', in: 'cookie', name: OWNER_COOKIE },
+        accessToken: { type: 'http', scheme: 'bearer', description: 'Token from unlocking a password-protected file or room' },
+      },
+    },
+  };
+}
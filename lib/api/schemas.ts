@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { DEVICE_TYPES } from '@/lib/devices';
+
+// Schemas of the public API (/api/v1). Routes validate their input with them,
+// the client (lib/api/client.ts) validates responses, and the OpenAPI document
+// (lib/api/openapi.ts) is generated from them. Shared by the API routes and
+// the page, so keep it free of Node APIs.
+
+// Schemas that show up as components of the OpenAPI document, by name
+export const apiSchemas = z.registry<{ id: string }>();
+
+export const ItemKindSchema = z.enum(['file', 'text']);
+
+export const DeviceSchema = z.object({
+  name: z.string().nullable().describe('Name the device picked for itself, see lib/devices.ts'),
+  type: z.enum(DEVICE_TYPES).describe("Guessed from the device's user agent"),
+}).register(apiSchemas, { id: 'Device' });
+
+export const FileMetadataSchema = z.object({
+  id: z.string(),
+  kind: ItemKindSchema.describe('Uploaded file or posted text snippet'),
+  language: z.string().nullable().describe('Highlighting language of a text snippet'),
+  name: z.string(),
+  path: z.string().describe('Folder the file was uploaded from, "" for none'),
+  size: z.number().int(),
+  type: z.string().describe('Type the file is served with'),
+  declaredType: z.string().describe("Type sent by the uploader's browser"),
+  detectedType: z.string().nullable().describe('Type sniffed from the content, if recognized'),
+  typeMismatch: z.boolean(),
+  hasThumbnail: z.boolean(),
+  encryptedMeta: z.string().nullable().describe('Name, type and path encrypted by the uploader; the fields above are placeholders then'),
+  passwordProtected: z.boolean(),
+  requiresPassword: z.boolean().describe('Whether this viewer has to unlock the file before its content can be fetched'),
+  uploadedAt: z.number().int(),
+  ownedByMe: z.boolean(),
+  expiresAt: z.number().int().nullable(),
+  downloadsLeft: z.number().int().nullable(),
+  expireOnDisconnect: z.boolean(),
+  device: DeviceSchema.nullable().describe('Device the file was uploaded from'),
+}).describe('File metadata, without the bytes. The uploader is only known by its device name and whether it is the viewer.').register(apiSchemas, { id: 'File' });
+
+// File metadata as sent to clients (see toFileMetadata in lib/fileStore.ts)
+export type FileMetadata = z.infer<typeof FileMetadataSchema>;
+
+export const UploadLimitsSchema = z.object({
+  maxFileSize: z.number().int().nullable(),
+  maxFilesPerUpload: z.number().int().nullable(),
+  maxStoreBytes: z.number().int().nullable(),
+  ownerQuotaBytes: z.number().int().nullable(),
+  allowedTypes: z.array(z.string()),
+  blockedTypes: z.array(z.string()),
+}).describe('Limits the server enforces on uploads; null means no limit').register(apiSchemas, { id: 'UploadLimits' });
+
+export const StorageInfoSchema = z.object({
+  backend: z.enum(['memory', 'disk', 'sqlite']),
+  persistent: z.boolean().describe('Whether stored files survive a server restart'),
+}).register(apiSchemas, { id: 'StorageInfo' });
+
+export type StorageInfo = z.infer<typeof StorageInfoSchema>;
+
+export const RoomSchema = z.object({
+  id: z.string(),
+  isRoomAdmin: z.boolean(),
+  passwordProtected: z.boolean(),
+  storage: StorageInfoSchema,
+  limits: UploadLimitsSchema,
+}).register(apiSchemas, { id: 'Room' });
+
+export type Room = z.infer<typeof RoomSchema>;
+
+export const CreateRoomBodySchema = z.object({
+  roomId: z.string().optional().describe('Name of the room; a random one is picked if left out'),
+  // Same rules as isValidPassword in lib/passwords.ts
+  password: z.string().min(1).max(256).nullable().optional(),
+}).register(apiSchemas, { id: 'CreateRoomBody' });
+
+export const FILE_SORT_FIELDS = ['uploadedAt', 'name', 'size'] as const;
+export type FileSortField = (typeof FILE_SORT_FIELDS)[number];
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+export const FileListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+  sort: z.enum(FILE_SORT_FIELDS).default('uploadedAt'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+
+export type FileListQuery = z.input<typeof FileListQuerySchema>;
+
+export const PageInfoSchema = z.object({
+  offset: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  nextOffset: z.number().int().nullable().describe('Offset of the next page, null on the last one'),
+}).register(apiSchemas, { id: 'PageInfo' });
+
+export const FileListSchema = z.object({
+  data: z.array(FileMetadataSchema),
+  page: PageInfoSchema,
+}).register(apiSchemas, { id: 'FileList' });
+
+export type FileList = z.infer<typeof FileListSchema>;
+
+export const FileResponseSchema = z.object({ data: FileMetadataSchema }).register(apiSchemas, { id: 'FileResponse' });
+export const FilesResponseSchema = z.object({ data: z.array(FileMetadataSchema) }).register(apiSchemas, { id: 'FilesResponse' });
+export const RoomResponseSchema = z.object({ data: RoomSchema }).register(apiSchemas, { id: 'RoomResponse' });
+
+export type FileResponse = z.infer<typeof FileResponseSchema>;
+export type FilesResponse = z.infer<typeof FilesResponseSchema>;
+export type RoomResponse = z.infer<typeof RoomResponseSchema>;
+
+export const API_ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'password_required',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'length_required',
+  'payload_too_large',
+  'file_too_large',
+  'too_many_files',
+  'store_full',
+  'quota_exceeded',
+  'unsupported_type',
+  'unavailable',
+  'internal_error',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Every error response has this shape, whatever the status
+export const ApiErrorBodySchema = z.object({
+  error: z.object({
+    code: z.enum(API_ERROR_CODES),
+    message: z.string(),
+    details: z.record(z.string(), z.unknown()).optional().describe('E.g. the failing fields, or which password is missing'),
+  }),
+}).register(apiSchemas, { id: 'Error' });
+
+export type ApiErrorBody = z.infer<typeof ApiErrorBodySchema>;
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { AccessError } from '@/lib/access';
+import { getOwnerId } from '@/lib/auth';
+import { fileStore, uploadLimits, PermissionError } from '@/lib/fileStore';
+import { LimitError } from '@/lib/limits';
+import { isValidRoomId, normalizeRoomId } from '@/lib/rooms';
+import { UploadError } from '@/lib/uploadSessions';
+import type { ApiErrorBody, ApiErrorCode, Room } from './schemas';
+
+// Shared parts of the /api/v1 routes. Whatever goes wrong, the response is an
+// ApiErrorBody with a stable code, so clients never have to parse messages.
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: ApiErrorCode,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const CODES_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  411: 'length_required',
+  413: 'payload_too_large',
+  503: 'unavailable',
+};
+
+export function apiErrorResponse(status: number, code: ApiErrorCode, message: string, details?: Record<string, unknown>) {
+  const body: ApiErrorBody = { error: { code, message, ...(details && { details }) } };
+  return NextResponse.json(body, { status });
+}
+
+// Turns anything a v1 route throws into an error response. Unexpected errors
+// are logged and answered with a generic 500, like the other routes do.
+export function handleApiError(error: unknown, action: string, failureMessage: string) {
+  if (error instanceof ApiError) {
+    return apiErrorResponse(error.status, error.code, error.message, error.details);
+  }
+  if (error instanceof ZodError) {
+    const issues = error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+    return apiErrorResponse(400, 'invalid_request', 'Invalid request', { issues });
+  }
+  if (error instanceof AccessError) {
+    return apiErrorResponse(error.status, 'password_required', error.message, { scope: error.scope });
+  }
+  if (error instanceof LimitError) {
+    return apiErrorResponse(error.status, error.code, error.message, error.fileName ? { fileName: error.fileName } : undefined);
+  }
+  if (error instanceof PermissionError) {
+    return apiErrorResponse(403, 'forbidden', error.message);
+  }
+  if (error instanceof UploadError) {
+    return apiErrorResponse(error.status, CODES_BY_STATUS[error.status] ?? 'invalid_request', error.message);
+  }
+  console.error(`Error ${action}:`, error);
+  return apiErrorResponse(500, 'internal_error', failureMessage);
+}
+
+// Rooms are part of the path in v1 (`/api/v1/rooms/<room>/...`) instead of `?room=`
+export function parseRoomId(room: string) {
+  const roomId = normalizeRoomId(room);
+  if (!isValidRoomId(roomId)) {
+    throw new ApiError('Invalid room', 400, 'invalid_request');
+  }
+  return roomId;
+}
+
+export function requireOwnerId(request: NextRequest) {
+  const ownerId = getOwnerId(request);
+  if (!ownerId) {
+    throw new ApiError('Missing owner cookie', 401, 'unauthorized');
+  }
+  return ownerId;
+}
+
+export function toRoom(roomId: string, ownerId: string | null): Room {
+  return {
+    id: roomId,
+    isRoomAdmin: fileStore.isRoomAdmin(roomId, ownerId),
+    passwordProtected: fileStore.isRoomProtected(roomId),
+    storage: fileStore.getStorageInfo(),
+    limits: uploadLimits,
+  };
+}
@@ -0,0 +1,176 @@
+import { readZipEntry, ZipDirectoryEntry } from '@/lib/zip';
+
+// Reads the package details of an APK from its AndroidManifest.xml, which is
+// stored in Android's binary XML format (AXML): a string pool followed by
+// start/end element chunks whose attributes point into that pool.
+
+export interface ApkInfo {
+  packageName: string | null;
+  versionName: string | null;
+  versionCode: string | null;
+  minSdkVersion: string | null;
+  targetSdkVersion: string | null;
+  // Only set when the label is a literal string rather than a resource reference
+  label: string | null;
+  permissions: string[];
+}
+
+const MANIFEST_NAME = 'AndroidManifest.xml';
+const MAX_MANIFEST_SIZE = 4 * 1024 * 1024;
+
+const CHUNK_STRING_POOL = 0x0001;
+const CHUNK_XML = 0x0003;
+const CHUNK_RESOURCE_MAP = 0x0180;
+const CHUNK_START_ELEMENT = 0x0102;
+const STRING_POOL_UTF8 = 0x100;
+const NO_INDEX = 0xffffffff;
+
+// Obfuscated APKs may strip attribute names, leaving only their android.R.attr IDs
+const ATTRIBUTE_IDS: Record<number, string> = {
+  0x01010001: 'label',
+  0x01010003: 'name',
+  0x0101020c: 'minSdkVersion',
+  0x0101021b: 'versionCode',
+  0x0101021c: 'versionName',
+  0x01010270: 'targetSdkVersion',
+};
+
+// Value types of a typed attribute value (Res_value)
+const TYPE_REFERENCE = 0x01;
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+const TYPE_INT_BOOLEAN = 0x12;
+
+// Lengths are 1 or 2 units; the high bit of the first unit means "2 units"
+function readUtf8Length(data: Buffer, offset: number): [number, number] {
+  const first = data[offset];
+  return first & 0x80 ? [((first & 0x7f) << 8) | data[offset + 1], offset + 2] : [first, offset + 1];
+}
+
+function readUtf16Length(data: Buffer, offset: number): [number, number] {
+  const first = data.readUInt16LE(offset);
+  return first & 0x8000
+    ? [((first & 0x7fff) << 16) | data.readUInt16LE(offset + 2), offset + 4]
+    : [first, offset + 2];
+}
+
+function readStringPool(data: Buffer, chunk: number, headerSize: number) {
+  const count = data.readUInt32LE(chunk + 8);
+  const utf8 = (data.readUInt32LE(chunk + 16) & STRING_POOL_UTF8) !== 0;
+  const stringsStart = chunk + data.readUInt32LE(chunk + 20);
+
+  const strings: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const start = stringsStart + data.readUInt32LE(chunk + headerSize + index * 4);
+    if (utf8) {
+      // UTF-16 length first (unused), then the UTF-8 byte length
+      const [, afterCharLength] = readUtf8Length(data, start);
+      const [byteLength, textStart] = readUtf8Length(data, afterCharLength);
+      strings.push(data.toString('utf8', textStart, textStart + byteLength));
+    } else {
+      const [length, textStart] = readUtf16Length(data, start);
+      strings.push(data.toString('utf16le', textStart, textStart + length * 2));
+    }
+  }
+  return strings;
+}
+
+function formatValue(data: Buffer, attribute: number, strings: string[]) {
+  const raw = data.readUInt32LE(attribute + 8);
+  if (raw !== NO_INDEX) return strings[raw] ?? null;
+
+  const type = data[attribute + 15];
+  const value = data.readUInt32LE(attribute + 16);
+  switch (type) {
+    case TYPE_STRING:
+      return strings[value] ?? null;
+    case TYPE_INT_DEC:
+      return String(value | 0);
+    case TYPE_INT_HEX:
+      return `0x${value.toString(16)}`;
+    case TYPE_INT_BOOLEAN:
+      return value !== 0 ? 'true' : 'false';
+    case TYPE_REFERENCE:
+      return `@0x${value.toString(16).padStart(8, '0')}`;
+    default:
+      return null;
+  }
+}
+
+export function parseManifest(data: Buffer): ApkInfo {
+  const info: ApkInfo = {
+    packageName: null,
+    versionName: null,
+    versionCode: null,
+    minSdkVersion: null,
+    targetSdkVersion: null,
+    label: null,
+    permissions: [],
+  };
+  if (data.length < 8 || data.readUInt16LE(0) !== CHUNK_XML) {
+    throw new Error('Not a binary XML manifest');
+  }
+
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+
+  for (let chunk = data.readUInt16LE(2); chunk + 8 <= data.length;) {
+    const type = data.readUInt16LE(chunk);
+    const headerSize = data.readUInt16LE(chunk + 2);
+    const size = data.readUInt32LE(chunk + 4);
+    if (size < 8) break;
+
+    if (type === CHUNK_STRING_POOL) {
+      strings = readStringPool(data, chunk, headerSize);
+    } else if (type === CHUNK_RESOURCE_MAP) {
+      resourceIds = [];
+      for (let offset = chunk + headerSize; offset + 4 <= chunk + size; offset += 4) {
+        resourceIds.push(data.readUInt32LE(offset));
+      }
+    } else if (type === CHUNK_START_ELEMENT) {
+      const body = chunk + headerSize;
+      const element = strings[data.readUInt32LE(body + 4)];
+      const attributeStart = data.readUInt16LE(body + 8);
+      const attributeSize = data.readUInt16LE(body + 10);
+      const attributeCount = data.readUInt16LE(body + 12);
+
+      const attributes: Record<string, string | null> = {};
+      for (let index = 0; index < attributeCount; index++) {
+        const attribute = body + attributeStart + index * attributeSize;
+        const nameIndex = data.readUInt32LE(attribute + 4);
+        const name = strings[nameIndex] || ATTRIBUTE_IDS[resourceIds[nameIndex]];
+        if (name) attributes[name] = formatValue(data, attribute, strings);
+      }
+
+      if (element === 'manifest') {
+        info.packageName = attributes.package ?? null;
+        info.versionCode = attributes.versionCode ?? null;
+        info.versionName = attributes.versionName ?? null;
+      } else if (element === 'uses-sdk') {
+        info.minSdkVersion = attributes.minSdkVersion ?? null;
+        info.targetSdkVersion = attributes.targetSdkVersion ?? null;
+      } else if (element === 'application') {
+        const label = attributes.label ?? null;
+        info.label = label?.startsWith('@') ? null : label;
+      } else if (element === 'uses-permission' && attributes.name) {
+        info.permissions.push(attributes.name);
+      }
+    }
+    chunk += size;
+  }
+  return info;
+}
+
+// `entries` is the archive's directory, see readZipDirectory in lib/zip.ts.
+// Returns null for archives without a (readable) manifest.
+export function readApkInfo(data: Buffer, entries: ZipDirectoryEntry[]): ApkInfo | null {
+  const entry = entries.find(candidate => candidate.name === MANIFEST_NAME);
+  if (!entry) return null;
+
+  try {
+    return parseManifest(readZipEntry(data, entry, MAX_MANIFEST_SIZE));
+  } catch {
+    return null;
+  }
+}
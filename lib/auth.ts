@@ -0,0 +1,24 @@
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+// Every browser gets a random owner token in an HttpOnly cookie (issued by proxy.ts).
+// Files and rooms only ever store a hash of it, so metadata on disk or in
+// events can't be used to impersonate anyone.
+export const OWNER_COOKIE = 'au_owner';
+export const OWNER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export function hashOwnerToken(token: string) {
+  return createHash('sha256').update(token).digest('hex').slice(0, 32);
+}
+
+export function getOwnerId(request: NextRequest): string | null {
+  const token = request.cookies.get(OWNER_COOKIE)?.value;
+  return token ? hashOwnerToken(token) : null;
+}
+
+// Address of the client, as told by the reverse proxy in front of the app or
+// else by the Next.js server. Good enough for the audit log, not for access checks.
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwardedFor || request.headers.get('x-real-ip') || null;
+}
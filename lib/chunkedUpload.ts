@@ -0,0 +1,172 @@
+// Client side of the resumable upload protocol in lib/uploadSessions.ts.
+// The upload ID is remembered in localStorage per file, so picking the same
+// file again after a dropped connection or a page reload only sends the
+// chunks the server doesn't have yet. Outside the browser (the CLI), pass a
+// `server` and a `resumeStore` of your own.
+
+import type { ExpiryPolicy } from '@/lib/expiry';
+
+export interface UploadedFileMetadata {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: number;
+}
+
+interface UploadStatus {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+}
+
+export interface ChunkedUploadOptions {
+  roomId: string;
+  expiry: ExpiryPolicy;
+  // Folder the file was picked from, for folder uploads (see lib/folders.ts)
+  path?: string;
+  // Name, type and path encrypted with the room key (see lib/e2e.ts), when `file` is ciphertext
+  encryptedMeta?: string;
+  // Visitors have to enter it before they can open the file (see lib/passwords.ts)
+  password?: string;
+  // Called with the number of bytes the server has confirmed so far
+  onProgress?: (loaded: number) => void;
+  // Where to send the upload, by default the page's own origin
+  server?: { baseUrl: string; headers: Record<string, string> };
+  // Keeps upload IDs for resuming, localStorage by default
+  resumeStore?: ResumeStore;
+}
+
+export type ResumeStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+type Fetcher = (path: string, init?: RequestInit) => Promise<Response>;
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export class ChunkedUploadError extends Error {
+  // `code` is set for limit errors, see lib/limits.ts
+  constructor(message: string, public status?: number, public code?: string) {
+    super(message);
+    this.name = 'ChunkedUploadError';
+  }
+}
+
+function resumeKey(file: File, roomId: string, path: string) {
+  return `au-upload:${roomId}:${path}/${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function sha256Hex(data: BufferSource) {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function readError(response: Response, fallback: string) {
+  const body = await response.json().catch(() => null);
+  return new ChunkedUploadError(body?.error || fallback, response.status, body?.code);
+}
+
+async function resumeOrCreate(
+  request: Fetcher,
+  resumeStore: ResumeStore,
+  file: File,
+  key: string,
+  roomId: string,
+  path: string,
+  expiry: ExpiryPolicy,
+  encryptedMeta: string | null,
+  password: string | null,
+): Promise<UploadStatus> {
+  const savedId = resumeStore.getItem(key);
+  if (savedId) {
+    const response = await request(`/api/uploads/${savedId}`);
+    if (response.ok) {
+      return response.json();
+    }
+    resumeStore.removeItem(key);
+  }
+
+  const response = await request(`/api/uploads?room=${encodeURIComponent(roomId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, path, size: file.size, type: file.type, expiry, encryptedMeta, password }),
+  });
+  if (!response.ok) {
+    throw await readError(response, 'Failed to start upload');
+  }
+
+  const status: UploadStatus = await response.json();
+  resumeStore.setItem(key, status.uploadId);
+  return status;
+}
+
+async function putChunk(request: Fetcher, uploadId: string, index: number, data: ArrayBuffer, checksum: string) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await request(`/api/uploads/${uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-Checksum': checksum },
+        body: data,
+      });
+      if (response.ok) return;
+      // Client errors won't get better by retrying
+      if (response.status < 500 || attempt >= MAX_CHUNK_ATTEMPTS) {
+        throw await readError(response, `Failed to upload chunk ${index}`);
+      }
+    } catch (error) {
+      if (error instanceof ChunkedUploadError || attempt >= MAX_CHUNK_ATTEMPTS) {
+        throw error;
+      }
+    }
+    await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  }
+}
+
+export async function uploadFileInChunks(
+  file: File,
+  { roomId, expiry, path = '', encryptedMeta, password, onProgress, server, resumeStore = localStorage }: ChunkedUploadOptions,
+) {
+  const request: Fetcher = server
+    ? (url, init = {}) => fetch(server.baseUrl + url, { ...init, headers: { ...server.headers, ...init.headers } })
+    : fetch;
+  const key = resumeKey(file, roomId, path);
+  const status = await resumeOrCreate(request, resumeStore, file, key, roomId, path, expiry, encryptedMeta ?? null, password ?? null);
+  const received = new Set(status.receivedChunks);
+  const chunkDigests: string[] = [];
+  let loaded = 0;
+
+  for (let index = 0; index < status.totalChunks; index++) {
+    const start = index * status.chunkSize;
+    const chunk = await file.slice(start, start + status.chunkSize).arrayBuffer();
+    // Digests of already received chunks are still needed for the final checksum
+    const digest = await sha256Hex(chunk);
+    chunkDigests.push(digest);
+
+    if (!received.has(index)) {
+      await putChunk(request, status.uploadId, index, chunk, digest);
+    }
+
+    loaded += chunk.byteLength;
+    onProgress?.(loaded);
+  }
+
+  const response = await request(`/api/uploads/${status.uploadId}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ checksum: await sha256Hex(new TextEncoder().encode(chunkDigests.join(''))) }),
+  });
+  if (!response.ok) {
+    // A rejected upload (e.g. checksum mismatch) can't be resumed - start over next time
+    if (response.status < 500) {
+      resumeStore.removeItem(key);
+    }
+    throw await readError(response, 'Failed to finish upload');
+  }
+
+  resumeStore.removeItem(key);
+  const result = await response.json();
+  return result.file as UploadedFileMetadata;
+}
@@ -0,0 +1,186 @@
+// Browser-side cache for file contents the page shows inline (text previews).
+// The file list itself is metadata only; contents are fetched on demand (when
+// a card scrolls into view or a file is opened), a few at a time, and the
+// least recently used ones are dropped once the cache is full. Only the first
+// `maxBytesPerFile` of a file are read, so a huge log can't freeze the tab.
+// End-to-end encrypted files can only be decrypted whole, so they are fetched
+// in full and cut off after decrypting.
+
+import { decodeText, TextEncodingName } from '@/lib/textDecoding';
+
+export interface ContentCacheLimits {
+  maxEntries: number;
+  // Total length of the cached texts, in characters
+  maxChars: number;
+  maxConcurrentFetches: number;
+  maxBytesPerFile: number;
+}
+
+export interface CachedContent {
+  text: string;
+  encoding: TextEncodingName;
+  // Whether only the first maxBytesPerFile bytes were read
+  truncated: boolean;
+}
+
+// Turns the fetched bytes into the file's content, e.g. decryptFile from lib/e2e.ts
+export type ContentDecoder = (data: Uint8Array<ArrayBuffer>) => Promise<Uint8Array<ArrayBuffer>>;
+
+export const DEFAULT_CONTENT_CACHE_LIMITS: ContentCacheLimits = {
+  maxEntries: 200,
+  maxChars: 4 * 1024 * 1024,
+  maxConcurrentFetches: 4,
+  maxBytesPerFile: 1024 * 1024,
+};
+
+export class ContentCache {
+  // Map iteration follows insertion order, so re-inserting on use keeps the
+  // least recently used entry first
+  private entries: Map<string, CachedContent> = new Map();
+  private cachedChars = 0;
+  private inFlight: Map<string, Promise<CachedContent>> = new Map();
+  private waiting: (() => void)[] = [];
+  private activeFetches = 0;
+
+  constructor(private limits: ContentCacheLimits = DEFAULT_CONTENT_CACHE_LIMITS) {}
+
+  // Cached content, without fetching it
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  // Returns the cached content, or fetches it. Concurrent calls for the same key share one request.
+  load(key: string, url: string, decode?: ContentDecoder): Promise<CachedContent> {
+    const cached = this.entries.get(key);
+    if (cached !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return Promise.resolve(cached);
+    }
+
+    let request = this.inFlight.get(key);
+    if (!request) {
+      request = (decode ? this.fetchDecoded(url, decode) : this.fetchContent(url))
+        .then(content => {
+          this.store(key, content);
+          return content;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, request);
+    }
+    return request;
+  }
+
+  delete(key: string) {
+    const content = this.entries.get(key);
+    if (content !== undefined) {
+      this.cachedChars -= content.text.length;
+      this.entries.delete(key);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.cachedChars = 0;
+  }
+
+  private store(key: string, content: CachedContent) {
+    this.delete(key);
+    // Texts larger than the whole cache are returned but not kept
+    if (content.text.length > this.limits.maxChars) return;
+
+    this.entries.set(key, content);
+    this.cachedChars += content.text.length;
+    for (const [oldestKey] of this.entries) {
+      if (this.entries.size <= this.limits.maxEntries && this.cachedChars <= this.limits.maxChars) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  private async fetchContent(url: string): Promise<CachedContent> {
+    await this.acquireSlot();
+    try {
+      const maxBytes = this.limits.maxBytesPerFile;
+      // Servers without Range support send everything, so the body is cut off while reading as well
+      const response = await fetch(url, { headers: { Range: `bytes=0-${maxBytes - 1}` } });
+      // Any range of an empty file is unsatisfiable
+      if (response.status === 416) {
+        return { text: '', encoding: 'utf-8', truncated: false };
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url} (${response.status})`);
+      }
+
+      const { bytes, complete } = await readAtMost(response, maxBytes);
+      // "bytes 0-1023/5000" - the total tells whether a range response is the whole file
+      const total = Number(/\/(\d+)$/.exec(response.headers.get('content-range') ?? '')?.[1] ?? bytes.length);
+      const truncated = !complete || total > bytes.length;
+      return { ...decodeText(bytes, truncated), truncated };
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async fetchDecoded(url: string, decode: ContentDecoder): Promise<CachedContent> {
+    await this.acquireSlot();
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url} (${response.status})`);
+      }
+      const bytes = await decode(new Uint8Array(await response.arrayBuffer()));
+      const truncated = bytes.length > this.limits.maxBytesPerFile;
+      return { ...decodeText(bytes.subarray(0, this.limits.maxBytesPerFile), truncated), truncated };
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private acquireSlot() {
+    if (this.activeFetches < this.limits.maxConcurrentFetches) {
+      this.activeFetches++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by releaseSlot, so activeFetches stays the same
+    return new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeFetches--;
+    }
+  }
+}
+
+// Reads up to `maxBytes` of a response body, cancelling the rest
+async function readAtMost(response: Response, maxBytes: number) {
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return { bytes: bytes.subarray(0, maxBytes), complete: bytes.length <= maxBytes };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { bytes: bytes.subarray(0, maxBytes), complete: length <= maxBytes };
+}
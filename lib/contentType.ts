@@ -0,0 +1,209 @@
+// Content sniffing: the type the browser declares for an upload is only a guess
+// from the file extension (and empty for unknown ones), so the stored bytes are
+// checked against known magic numbers to find out what a file really is.
+
+// Only the start of a file is needed for everything except the APK check
+const SNIFF_BYTES = 4096;
+
+interface Signature {
+  type: string;
+  offset?: number;
+  bytes: (number | null)[]; // null matches any byte
+}
+
+const SIGNATURES: Signature[] = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { type: 'image/bmp', bytes: [0x42, 0x4d, null, null, null, null, 0x00, 0x00, 0x00, 0x00] }, // reserved bytes are zero
+  { type: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { type: 'audio/wav', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { type: 'video/x-msvideo', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x41, 0x56, 0x49, 0x20] },
+  { type: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { type: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] }, // ID3 tag
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] }, // empty archive
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { type: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { type: 'application/vnd.rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { type: 'application/x-msdownload', bytes: [0x4d, 0x5a] },
+  { type: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { type: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+];
+
+// ISO base media brands (the "ftyp" box)
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heif',
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  'M4V ': 'video/x-m4v',
+  '3gp4': 'video/3gpp',
+  '3gp5': 'video/3gpp',
+};
+
+// type "/" subtype, both RFC 7230 tokens
+const MIME_ESSENCE = /^[a-z0-9!#$%&'*+.^_`|~-]+\/[a-z0-9!#$%&'*+.^_`|~-]+$/;
+
+// Declared when the browser doesn't know the type, so never a mismatch
+const UNKNOWN_TYPES = new Set(['', 'application/octet-stream']);
+
+// Types a browser will run scripts in when served inline
+const ACTIVE_TYPES = new Set(['text/html', 'application/xhtml+xml', 'image/svg+xml', 'text/xml', 'application/xml']);
+
+// Zip containers that carry their own, more specific type
+const ZIP_BASED_TYPES = new Set([
+  'application/vnd.android.package-archive',
+  'application/java-archive',
+  'application/epub+zip',
+  'application/x-zip-compressed',
+]);
+
+function matches(data: Buffer, { bytes, offset = 0 }: Signature) {
+  if (data.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => byte === null || data[offset + index] === byte);
+}
+
+function sniffFtyp(data: Buffer) {
+  if (data.length < 12 || data.toString('latin1', 4, 8) !== 'ftyp') return null;
+  const brand = data.toString('latin1', 8, 12);
+  return FTYP_BRANDS[brand] ?? 'video/mp4';
+}
+
+function sniffMatroska(data: Buffer) {
+  if (!matches(data, { type: '', bytes: [0x1a, 0x45, 0xdf, 0xa3] })) return null;
+  return data.subarray(0, SNIFF_BYTES).includes('webm') ? 'video/webm' : 'video/x-matroska';
+}
+
+// MPEG audio frames without an ID3 tag start with an 11 bit sync word
+function sniffMp3(data: Buffer) {
+  return data.length >= 2 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0 ? 'audio/mpeg' : null;
+}
+
+// A sample cut from a longer file may end in the middle of a multi-byte character
+function isValidUtf8(sample: Buffer, truncated: boolean) {
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  for (let cut = 0; cut <= (truncated ? 3 : 0); cut++) {
+    try {
+      decoder.decode(sample.subarray(0, sample.length - cut));
+      return true;
+    } catch {
+      // try again without the last byte
+    }
+  }
+  return false;
+}
+
+function sniffText(sample: Buffer, truncated: boolean) {
+  // Byte order marks
+  if (matches(sample, { type: '', bytes: [0xef, 0xbb, 0xbf] }) ||
+    matches(sample, { type: '', bytes: [0xff, 0xfe] }) ||
+    matches(sample, { type: '', bytes: [0xfe, 0xff] })) {
+    return 'text/plain';
+  }
+
+  // Control characters other than whitespace mean binary data
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b) {
+      return null;
+    }
+  }
+  if (!isValidUtf8(sample, truncated)) return null;
+
+  const head = sample.toString('utf8').trimStart().slice(0, 512).toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html') ||
+    /^<(head|body|script|iframe)[\s>]/.test(head)) {
+    return 'text/html';
+  }
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+    return 'image/svg+xml';
+  }
+  if (head.startsWith('<?xml')) {
+    return 'application/xml';
+  }
+  return 'text/plain';
+}
+
+// Returns the type the bytes actually look like, or null if they're not recognized
+export function detectContentType(data: Buffer): string | null {
+  if (data.length === 0) return null;
+
+  const signature = SIGNATURES.find(candidate => matches(data, candidate));
+  if (signature?.type === 'application/zip') {
+    // An APK is a zip archive with an AndroidManifest.xml entry
+    return data.includes('AndroidManifest.xml') ? 'application/vnd.android.package-archive' : 'application/zip';
+  }
+  if (signature) return signature.type;
+
+  return sniffFtyp(data) ?? sniffMatroska(data) ?? sniffMp3(data) ?? sniffText(data.subarray(0, SNIFF_BYTES), data.length > SNIFF_BYTES);
+}
+
+// The MIME essence of a type, e.g. "text/html" for "TEXT/HTML ; charset=x".
+// Anything that isn't a valid type becomes "" (unknown). Every check and the
+// stored type use the essence, so parameters or odd casing can't slip an active
+// type past them.
+export function normalizeContentType(type: string) {
+  const essence = type.split(';')[0].trim().toLowerCase();
+  return MIME_ESSENCE.test(essence) ? essence : '';
+}
+
+export function isActiveContentType(type: string) {
+  return ACTIVE_TYPES.has(normalizeContentType(type));
+}
+
+// Types a browser may show inline: media (not SVG, which is active) and PDF.
+// Everything else is only ever served as an attachment.
+export function isInlineContentType(type: string) {
+  const essence = normalizeContentType(type);
+  if (isActiveContentType(essence)) return false;
+  return essence === 'application/pdf' || /^(image|video|audio)\//.test(essence);
+}
+
+function isTextualType(type: string) {
+  return (type.startsWith('text/') || type === 'application/json' || type === 'application/javascript' ||
+    type.endsWith('+json')) && !isActiveContentType(type);
+}
+
+// Whether the declared type is a fair description of the detected one.
+// Detection is coarse (plain text, generic zip, mp4 container), so a more
+// specific declared type in the same family counts as a match.
+function isCompatible(declared: string, detected: string) {
+  if (declared === detected) return true;
+  if (detected === 'text/plain') return isTextualType(declared);
+  if (detected === 'application/zip') return ZIP_BASED_TYPES.has(declared) || declared.startsWith('application/vnd.openxmlformats') ||
+    declared.startsWith('application/vnd.oasis.opendocument');
+  if (detected === 'video/mp4' || detected === 'video/webm' || detected === 'audio/ogg') {
+    return declared.startsWith('video/') || declared.startsWith('audio/');
+  }
+  if (detected === 'audio/wav') return declared === 'audio/x-wav' || declared === 'audio/wave';
+  if (detected === 'image/x-icon') return declared === 'image/vnd.microsoft.icon';
+  return false;
+}
+
+export function isTypeMismatch(declaredType: string, detectedType: string | null) {
+  const declared = normalizeContentType(declaredType);
+  if (UNKNOWN_TYPES.has(declared) || !detectedType) return false;
+  return !isCompatible(declared, detectedType);
+}
+
+// Works out the type a file is stored and served with: the declared type if it
+// agrees with the content, otherwise whatever the content was detected as
+export function resolveContentType(data: Buffer, declaredType: string) {
+  const detectedType = detectContentType(data);
+  const declared = normalizeContentType(declaredType);
+
+  let type: string;
+  if (detectedType && (UNKNOWN_TYPES.has(declared) || !isCompatible(declared, detectedType))) {
+    type = detectedType;
+  } else {
+    type = declared || 'application/octet-stream';
+  }
+
+  return { type, declaredType: declared, detectedType };
+}
@@ -0,0 +1,62 @@
+// Friendly names for the devices in a room ("Calm Falcon"), shown in the
+// "who's here" bar and on the files they upload. The name lives in a cookie
+// (issued by proxy.ts with a random name, changed through /api/peers/device),
+// so every request - uploads included - carries it. The kind of device comes
+// from the user agent. This module is shared by the API routes, proxy.ts and
+// the page, so keep it free of Node APIs.
+
+export const DEVICE_COOKIE = 'au_device';
+export const DEVICE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+export const MAX_DEVICE_NAME_LENGTH = 40;
+
+export const DEVICE_TYPES = ['phone', 'tablet', 'desktop', 'cli', 'unknown'] as const;
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+export interface DeviceInfo {
+  name: string | null; // null when the client never picked one (e.g. curl)
+  type: DeviceType;
+}
+
+const NAME_ADJECTIVES = ['Amber', 'Brave', 'Calm', 'Dusty', 'Eager', 'Fuzzy', 'Gentle', 'Happy', 'Icy', 'Jolly', 'Lucky', 'Mellow', 'Quiet', 'Rapid', 'Sunny', 'Witty'];
+const NAME_ANIMALS = ['Badger', 'Beaver', 'Falcon', 'Gecko', 'Heron', 'Koala', 'Lemur', 'Lynx', 'Moose', 'Otter', 'Panda', 'Puffin', 'Tiger', 'Walrus', 'Wombat', 'Zebra'];
+
+export function generateDeviceName() {
+  const pick = (words: string[]) => words[Math.floor(Math.random() * words.length)];
+  return `${pick(NAME_ADJECTIVES)} ${pick(NAME_ANIMALS)}`;
+}
+
+// Trims and collapses whitespace; null for an empty or oversized name
+export function normalizeDeviceName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  // Control characters would end up in headers and logs
+  const name = value.replace(/[\u0000-\u001f\u007f]/g, '').replace(/\s+/g, ' ').trim();
+  return name && name.length <= MAX_DEVICE_NAME_LENGTH ? name : null;
+}
+
+// Rough guess from the user agent - iPads asking for the desktop site pass as desktops
+export function detectDeviceType(userAgent: string | null): DeviceType {
+  if (!userAgent) return 'unknown';
+  if (/iPad|Tablet|Android(?!.*Mobile)/i.test(userAgent)) return 'tablet';
+  if (/Mobi|iPhone|iPod|Android/i.test(userAgent)) return 'phone';
+  if (/^(au-share|curl|Wget|node|undici|python|Go-http-client)/i.test(userAgent)) return 'cli';
+  if (/Windows|Macintosh|X11|Linux|CrOS/i.test(userAgent)) return 'desktop';
+  return 'unknown';
+}
+
+// Device name from a Cookie header
+function readDeviceName(cookies: string | null) {
+  const cookie = cookies?.split(/;\s*/).find(pair => pair.startsWith(`${DEVICE_COOKIE}=`));
+  if (!cookie) return null;
+  try {
+    return normalizeDeviceName(decodeURIComponent(cookie.slice(DEVICE_COOKIE.length + 1)));
+  } catch {
+    return null; // not valid percent-encoding
+  }
+}
+
+export function getDevice(request: Request): DeviceInfo {
+  return {
+    name: readDeviceName(request.headers.get('cookie')),
+    type: detectDeviceType(request.headers.get('user-agent')),
+  };
+}
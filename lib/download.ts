@@ -0,0 +1,139 @@
+import { Readable } from 'stream';
+import { fileStore } from '@/lib/fileStore';
+import type { StoredFileInfo } from '@/lib/storage';
+import { isInlineContentType } from '@/lib/contentType';
+
+// Helpers for serving stored files as raw bytes (Content-Disposition, ETag, Range)
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// Parses a single-range `Range: bytes=...` header against a file of `size` bytes.
+// Returns null when the header is absent or unsupported (multiple ranges, other
+// units) so the caller can fall back to a full 200 response, and 'unsatisfiable'
+// when the range lies outside the file (416).
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+  if (startText === '' && endText === '') return null;
+
+  let start: number;
+  let end: number;
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(endText, 10);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText === '' ? size - 1 : Math.min(parseInt(endText, 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+// Builds a Content-Disposition header that survives non-ASCII file names:
+// an ASCII fallback in `filename` plus the UTF-8 name in `filename*` (RFC 6266).
+export function contentDisposition(fileName: string, disposition: 'inline' | 'attachment') {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encodedName = encodeURIComponent(fileName).replace(/['()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+// Stored files never change once uploaded, so id + size + upload time is a stable validator
+export function fileETag(file: { id: string; size: number; uploadedAt: number }) {
+  return `"${file.id}-${file.size.toString(36)}-${file.uploadedAt.toString(36)}"`;
+}
+
+// True when an If-None-Match header matches the given ETag
+export function etagMatches(header: string | null, etag: string) {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  return header.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+}
+
+// Wraps a Buffer for use as a Response body without copying the bytes
+export function toResponseBody(data: Buffer) {
+  return new Uint8Array(data.buffer as ArrayBuffer, data.byteOffset, data.length);
+}
+
+// Streams stored bytes as a Response body, so a file is never read into memory in one piece
+function toResponseStream(data: Readable) {
+  return Readable.toWeb(data) as ReadableStream<Uint8Array>;
+}
+
+// Serves the stored bytes directly, with Range support so media elements can seek.
+// The bytes are streamed from the storage backend, only the requested range is read.
+// Only media and PDFs are served inline (unless ?download=1 asks for an
+// attachment); everything else is an attachment, so uploads never render as
+// pages on this origin.
+// For files with a download limit, every response that starts at byte 0 counts
+// as a download - follow-up range requests of the same download don't.
+// Callers look the file up and check access first.
+export async function serveStoredFile(request: Request, file: StoredFileInfo, includeBody: boolean) {
+  const { searchParams } = new URL(request.url);
+  const inline = !searchParams.get('download') && isInlineContentType(file.type);
+  const etag = fileETag(file);
+
+  const headers = new Headers({
+    // Snippets are always stored as UTF-8
+    'Content-Type': file.kind === 'text' ? 'text/plain; charset=utf-8' : file.type || 'application/octet-stream',
+    'Content-Disposition': contentDisposition(file.name, inline ? 'inline' : 'attachment'),
+    'Accept-Ranges': 'bytes',
+    // Burn-after-download files must never be served from a cache
+    'Cache-Control': file.maxDownloads === null ? 'private, no-cache' : 'no-store',
+    ETag: etag,
+    'X-Content-Type-Options': 'nosniff',
+  });
+
+  // Whatever a browser shows inline must not run scripts on this origin
+  if (inline) {
+    headers.set('Content-Security-Policy', 'sandbox');
+  }
+
+  if (etagMatches(request.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  // Only honour Range if the client's cached copy (If-Range) is still current
+  const ifRange = request.headers.get('if-range');
+  const range = !ifRange || ifRange === etag
+    ? parseRange(request.headers.get('range'), file.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${file.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  if (range) {
+    headers.set('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+    headers.set('Content-Length', (range.end - range.start + 1).toString());
+  } else {
+    headers.set('Content-Length', file.size.toString());
+  }
+  const status = range ? 206 : 200;
+  if (!includeBody) {
+    return new Response(null, { status, headers });
+  }
+
+  const data = await fileStore.readFile(file, range ?? undefined);
+  if (!data) {
+    return Response.json({ error: 'File not found' }, { status: 404 });
+  }
+  // The download limit may have been used up since the file was looked up
+  if ((!range || range.start === 0) && !(await fileStore.recordDownload(file, data))) {
+    data.destroy();
+    return Response.json({ error: 'File not found' }, { status: 404 });
+  }
+  return new Response(toResponseStream(data), { status, headers });
+}
@@ -0,0 +1,78 @@
+// Browser helpers for reading files out of a drop (including whole folders)
+// or a paste. Dropped folders only show up as entries (the non-standard but
+// widely supported webkitGetAsEntry API), which have to be walked recursively.
+
+import { folderOf } from '@/lib/folders';
+
+export interface PickedFile {
+  file: File;
+  // Folder the file was in, relative to what was dropped or picked (see lib/folders.ts)
+  path: string;
+}
+
+function readFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most ~100 entries per call, so keep reading until it comes back empty
+async function readDirectory(entry: FileSystemDirectoryEntry) {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function walk(entry: FileSystemEntry, result: PickedFile[]) {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    // fullPath is absolute within the drop, e.g. "/photos/2024/a.jpg"
+    result.push({ file, path: folderOf(entry.fullPath.replace(/^\//, '')) });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await walk(child, result);
+    }
+  }
+}
+
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  // The item list is only valid during the drop event, so grab the entries before awaiting anything
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.());
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files, file => ({ file, path: '' }));
+  }
+
+  const result: PickedFile[] = [];
+  for (const entry of entries) {
+    await walk(entry!, result);
+  }
+  return result;
+}
+
+// Files from <input type="file" webkitdirectory> carry their path in webkitRelativePath
+export function fromFileList(fileList: FileList | null): PickedFile[] {
+  return Array.from(fileList || [], file => ({ file, path: folderOf(file.webkitRelativePath || '') }));
+}
+
+// Name for pasted content, e.g. "pasted-2024-05-01-12-30-00.png"
+function pastedName(type: string) {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  const extension = /^image\/([a-z0-9]+)/.exec(type)?.[1] ?? 'bin';
+  return `pasted-${timestamp}.${extension === 'jpeg' ? 'jpg' : extension}`;
+}
+
+// Pasted files (copied in a file manager) keep their names. Screenshots arrive
+// as "image.png" or similar, so they get a timestamped name.
+// Pasted text isn't a file - it's shared as a snippet instead (see lib/snippets.ts).
+export function readPastedFiles(clipboardData: DataTransfer): PickedFile[] {
+  return Array.from(clipboardData.files, file => {
+    const isScreenshot = file.type.startsWith('image/') && /^image\.\w+$/i.test(file.name);
+    const name = isScreenshot || !file.name ? pastedName(file.type) : file.name;
+    return { file: name === file.name ? file : new File([file], name, { type: file.type }), path: '' };
+  });
+}
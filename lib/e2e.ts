@@ -0,0 +1,187 @@
+// End-to-end encryption for rooms opened with a key in the URL fragment
+// (`/r/<room>#key=...`). Browsers never send the fragment to the server, so
+// files and their metadata are encrypted before upload and only people with
+// the full link can decrypt them. Uses WebCrypto only, so it works in the
+// page and in Node; keep it free of other APIs.
+//
+// File format: "AUE1", the plaintext chunk size (uint32 BE) and an 8 byte
+// random nonce, followed by the chunks. Each chunk is AES-256-GCM encrypted
+// on its own (so large files never have to be encrypted in one go) with the
+// IV nonce || chunk index (uint32 BE), and whether it's the last chunk as
+// additional data, so chunks can't be reordered, dropped or cut off unnoticed.
+
+import type { ItemKind } from '@/lib/snippets';
+
+export const E2E_CHUNK_SIZE = 1024 * 1024;
+// Encrypted metadata is small, but the server stores it as-is, so it's capped
+export const MAX_ENCRYPTED_METADATA_LENGTH = 4096;
+
+const MAGIC = new Uint8Array([0x41, 0x55, 0x45, 0x31]); // "AUE1"
+const HEADER_SIZE = MAGIC.length + 4 + 8;
+const TAG_SIZE = 16;
+const KEY_PARAM = 'key';
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
+// What the server only ever sees encrypted
+export interface EncryptedFileMetadata {
+  name: string;
+  type: string;
+  path: string;
+  size: number;
+  kind: ItemKind;
+  language: string | null;
+}
+
+// Thrown when data can't be decrypted with the key (wrong key, or tampered with)
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// Whether a value from a request looks like encrypted metadata (the server can't check more)
+export function isEncryptedMetadata(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_ENCRYPTED_METADATA_LENGTH && BASE64URL.test(value);
+}
+
+export function generateRoomKey() {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// Reads the key from a location hash like "#key=..."; null if there is none or it's malformed
+export function readKeyFromHash(hash: string) {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(KEY_PARAM);
+  if (!value || !BASE64URL.test(value)) return null;
+  try {
+    return fromBase64Url(value).length === 32 ? value : null;
+  } catch {
+    return null; // e.g. a mistyped link with a length atob can't decode
+  }
+}
+
+export function keyHash(key: string) {
+  return `#${KEY_PARAM}=${key}`;
+}
+
+const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+function importKey(key: string) {
+  let imported = importedKeys.get(key);
+  if (!imported) {
+    imported = crypto.subtle.importKey('raw', fromBase64Url(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+    importedKeys.set(key, imported);
+  }
+  return imported;
+}
+
+function chunkIv(nonce: Uint8Array, index: number) {
+  const iv = new Uint8Array(12);
+  iv.set(nonce);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+}
+
+export async function encryptFile(file: Blob, key: string): Promise<Blob> {
+  const cryptoKey = await importKey(key);
+  const nonce = crypto.getRandomValues(new Uint8Array(8));
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(MAGIC);
+  new DataView(header.buffer).setUint32(MAGIC.length, E2E_CHUNK_SIZE);
+  header.set(nonce, MAGIC.length + 4);
+
+  const parts: BlobPart[] = [header];
+  const chunkCount = Math.max(1, Math.ceil(file.size / E2E_CHUNK_SIZE));
+  for (let index = 0; index < chunkCount; index++) {
+    const plaintext = await file.slice(index * E2E_CHUNK_SIZE, (index + 1) * E2E_CHUNK_SIZE).arrayBuffer();
+    const isLast = index === chunkCount - 1;
+    parts.push(await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkIv(nonce, index), additionalData: new Uint8Array([isLast ? 1 : 0]) },
+      cryptoKey,
+      plaintext
+    ));
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+export async function decryptFile(data: Uint8Array<ArrayBuffer>, key: string): Promise<Uint8Array<ArrayBuffer>> {
+  if (data.length < HEADER_SIZE || MAGIC.some((byte, index) => data[index] !== byte)) {
+    throw new DecryptionError('Not an encrypted file');
+  }
+  const cryptoKey = await importKey(key);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunkSize = view.getUint32(MAGIC.length);
+  const nonce = data.subarray(MAGIC.length + 4, HEADER_SIZE);
+  if (chunkSize === 0) throw new DecryptionError('Corrupt header');
+
+  const encryptedChunkSize = chunkSize + TAG_SIZE;
+  const chunkCount = Math.max(1, Math.ceil((data.length - HEADER_SIZE) / encryptedChunkSize));
+  const output = new Uint8Array(Math.max(0, data.length - HEADER_SIZE - chunkCount * TAG_SIZE));
+
+  let written = 0;
+  for (let index = 0; index < chunkCount; index++) {
+    const start = HEADER_SIZE + index * encryptedChunkSize;
+    const isLast = index === chunkCount - 1;
+    try {
+      const plaintext = new Uint8Array(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkIv(nonce, index), additionalData: new Uint8Array([isLast ? 1 : 0]) },
+        cryptoKey,
+        data.subarray(start, start + encryptedChunkSize)
+      ));
+      output.set(plaintext, written);
+      written += plaintext.length;
+    } catch {
+      throw new DecryptionError('Wrong key, or the file was modified');
+    }
+  }
+  return output;
+}
+
+export async function encryptMetadata(metadata: EncryptedFileMetadata, key: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importKey(key),
+    new TextEncoder().encode(JSON.stringify(metadata))
+  ));
+  const combined = new Uint8Array(iv.length + ciphertext.length);
+  combined.set(iv);
+  combined.set(ciphertext, iv.length);
+  return toBase64Url(combined);
+}
+
+// Returns null if the metadata can't be decrypted with this key
+export async function decryptMetadata(value: string, key: string): Promise<EncryptedFileMetadata | null> {
+  try {
+    const combined = fromBase64Url(value);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.subarray(0, 12) },
+      await importKey(key),
+      combined.subarray(12)
+    );
+    const metadata = JSON.parse(new TextDecoder().decode(plaintext));
+    // Whoever has the key can upload, so the contents are checked like any other input
+    if (
+      typeof metadata?.name !== 'string' || typeof metadata.type !== 'string' || typeof metadata.path !== 'string' ||
+      typeof metadata.size !== 'number' || (metadata.kind !== 'file' && metadata.kind !== 'text') ||
+      (metadata.language !== null && typeof metadata.language !== 'string')
+    ) {
+      return null;
+    }
+    const { name, type, path, size, kind, language } = metadata as EncryptedFileMetadata;
+    return { name, type, path, size, kind, language };
+  } catch {
+    return null;
+  }
+}
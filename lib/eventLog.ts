@@ -0,0 +1,180 @@
+import { timingSafeEqual } from 'crypto';
+import { appendFileSync, existsSync, promises as fs, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { NextRequest } from 'next/server';
+import type { StoredFileInfo } from '@/lib/storage';
+import { webhooks } from '@/lib/webhooks';
+
+// Audit log of store changes: who (owner ID and IP) uploaded, deleted or
+// cleared what and when, plus the files the server expired. Every recorded
+// event also goes out to the configured webhooks (see lib/webhooks.ts).
+// Configured from the environment:
+//   EVENT_LOG_SIZE - events kept, oldest are dropped first (default: 10000)
+//   EVENT_LOG_PATH - JSON Lines file the log is kept in (default: <tmpdir>/au-share-events.jsonl
+//                    with a persistent STORAGE_BACKEND, memory only otherwise)
+//   EVENT_LOG_TOKEN - bearer token that reads the events of every room at /api/events;
+//                     without it, room admins can only read their own room's events
+
+export const AUDIT_EVENT_TYPES = ['file.uploaded', 'file.deleted', 'file.expired', 'room.cleared'] as const;
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export interface EventActor {
+  ownerId: string | null; // hashed owner token, see lib/auth.ts
+  ip: string | null;
+}
+
+// What the log keeps of a file - never its content or password hash
+export interface AuditFile {
+  id: string;
+  name: string; // a placeholder for end-to-end encrypted files
+  path: string;
+  size: number;
+  type: string;
+  kind: StoredFileInfo['kind'];
+  ownerId: string;
+  encrypted: boolean;
+}
+
+export interface AuditEvent {
+  id: number; // increases monotonically, also across restarts with a log file
+  type: AuditEventType;
+  roomId: string;
+  at: number;
+  // Who made the change; null for changes the server made itself (expiry)
+  actor: EventActor | null;
+  file: AuditFile | null; // null for room.cleared
+}
+
+export interface AuditEventQuery {
+  roomId?: string;
+  types?: AuditEventType[];
+  // Only events with a higher ID, to pick up where the last query stopped
+  after?: number;
+  limit: number;
+}
+
+const DEFAULT_EVENT_LOG_SIZE = 10000;
+
+function toAuditFile(file: StoredFileInfo): AuditFile {
+  return {
+    id: file.id,
+    name: file.name,
+    path: file.path,
+    size: file.size,
+    type: file.type,
+    kind: file.kind,
+    ownerId: file.ownerId,
+    encrypted: file.encryptedMeta !== null,
+  };
+}
+
+export function isAuditEventType(value: string): value is AuditEventType {
+  return (AUDIT_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+// Whether the request carries `Authorization: Bearer <EVENT_LOG_TOKEN>`
+export function hasEventLogToken(request: NextRequest) {
+  const token = process.env.EVENT_LOG_TOKEN;
+  const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '')?.[1];
+  if (!token || !bearer) return false;
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(bearer);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+class EventLog {
+  private events: AuditEvent[] = [];
+  private lastId = 0;
+  // Lines in the log file; it's rewritten with just the kept events once it
+  // holds twice as many as needed
+  private fileLines = 0;
+  private writes = Promise.resolve();
+
+  constructor(private filename: string | null, private maxEvents: number) {
+    if (filename && existsSync(filename)) {
+      this.load(filename);
+    }
+  }
+
+  private load(filename: string) {
+    const lines = readFileSync(filename, 'utf8').split('\n').filter(Boolean);
+    for (const line of lines) {
+      try {
+        this.events.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash - skip it
+      }
+    }
+    this.fileLines = lines.length;
+    this.events = this.events.slice(-this.maxEvents);
+    this.lastId = this.events.at(-1)?.id ?? 0;
+  }
+
+  record(type: AuditEventType, roomId: string, file: StoredFileInfo | null, actor: EventActor | null) {
+    const event: AuditEvent = {
+      id: ++this.lastId,
+      type,
+      roomId,
+      at: Date.now(),
+      actor,
+      file: file && toAuditFile(file),
+    };
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+    this.persist(event);
+    webhooks.dispatch(event);
+    return event;
+  }
+
+  private persist(event: AuditEvent) {
+    const filename = this.filename;
+    if (!filename) return;
+
+    this.fileLines++;
+    const compact = this.fileLines > this.maxEvents * 2;
+    const contents = compact
+      ? this.events.map(kept => JSON.stringify(kept) + '\n').join('')
+      : JSON.stringify(event) + '\n';
+    if (compact) this.fileLines = this.events.length;
+
+    // Chained, so lines are written in order and a rewrite never races an append
+    this.writes = this.writes
+      .then(() => (compact ? fs.writeFile(filename, contents) : fs.appendFile(filename, contents)))
+      .catch(error => console.error('Error writing event log:', error));
+  }
+
+  // Matching events, oldest first. Without `after`, the most recent ones.
+  query({ roomId, types, after, limit }: AuditEventQuery) {
+    const matching = this.events.filter(event =>
+      (roomId === undefined || event.roomId === roomId) &&
+      (types === undefined || types.includes(event.type)) &&
+      (after === undefined || event.id > after)
+    );
+    const events = after === undefined ? matching.slice(-limit) : matching.slice(0, limit);
+    return { events, hasMore: after !== undefined && matching.length > limit };
+  }
+}
+
+function createEventLog(env: Record<string, string | undefined> = process.env) {
+  const size = env.EVENT_LOG_SIZE ? Number(env.EVENT_LOG_SIZE) : DEFAULT_EVENT_LOG_SIZE;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Invalid EVENT_LOG_SIZE "${env.EVENT_LOG_SIZE}"`);
+  }
+  // Keep the log as long as the files it describes
+  const persistent = (env.STORAGE_BACKEND || 'memory').toLowerCase() !== 'memory';
+  const filename = env.EVENT_LOG_PATH || (persistent ? path.join(os.tmpdir(), 'au-share-events.jsonl') : null);
+  if (filename && !existsSync(filename)) {
+    // Fails early on an unwritable path instead of on the first event
+    appendFileSync(filename, '');
+  }
+  return new EventLog(filename, size);
+}
+
+// Singleton, kept on globalThis like the file store
+const globalForEventLog = globalThis as unknown as { eventLog?: EventLog };
+
+export const eventLog = globalForEventLog.eventLog ?? createEventLog();
+globalForEventLog.eventLog = eventLog;
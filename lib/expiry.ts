@@ -0,0 +1,94 @@
+// File lifetime policies. A file is removed as soon as any of its limits is hit:
+//   - ttlSeconds:      fixed lifetime after upload
+//   - maxDownloads:    burn after this many downloads
+//   - untilDisconnect: as long as the uploader keeps sending heartbeats
+// Shared by the API routes and the page, so keep it free of Node APIs.
+
+export interface ExpiryPolicy {
+  ttlSeconds: number | null;
+  maxDownloads: number | null;
+  untilDisconnect: boolean;
+}
+
+export const TTL_OPTIONS = [
+  { label: '10 minutes', seconds: 10 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+];
+
+export const MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const MAX_DOWNLOADS_LIMIT = 1000;
+
+export const DEFAULT_EXPIRY_POLICY: ExpiryPolicy = {
+  ttlSeconds: 24 * 60 * 60,
+  maxDownloads: null,
+  untilDisconnect: false,
+};
+
+// Clients send a heartbeat this often while the page is open...
+export const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+// ...and count as disconnected after this long without one (survives a page refresh)
+export const DISCONNECT_TIMEOUT_MS = 60 * 1000;
+
+function toOptionalInteger(value: unknown) {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) ? number : NaN;
+}
+
+// Validates a policy from a request body or form. Missing fields fall back to the
+// defaults; returns an error message for values that are out of range.
+export function parseExpiryPolicy(input: {
+  ttlSeconds?: unknown;
+  maxDownloads?: unknown;
+  untilDisconnect?: unknown;
+} | null | undefined): ExpiryPolicy | string {
+  if (!input) return DEFAULT_EXPIRY_POLICY;
+
+  const ttlSeconds = input.ttlSeconds === undefined
+    ? DEFAULT_EXPIRY_POLICY.ttlSeconds
+    : toOptionalInteger(input.ttlSeconds);
+  if (ttlSeconds !== null && (Number.isNaN(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > MAX_TTL_SECONDS)) {
+    return `ttlSeconds must be between 1 and ${MAX_TTL_SECONDS}`;
+  }
+
+  const maxDownloads = toOptionalInteger(input.maxDownloads);
+  if (maxDownloads !== null && (Number.isNaN(maxDownloads) || maxDownloads < 1 || maxDownloads > MAX_DOWNLOADS_LIMIT)) {
+    return `maxDownloads must be between 1 and ${MAX_DOWNLOADS_LIMIT}`;
+  }
+
+  const untilDisconnect = input.untilDisconnect === true || input.untilDisconnect === 'true';
+
+  // Without any limit a file would live forever
+  if (ttlSeconds === null && maxDownloads === null && !untilDisconnect) {
+    return 'At least one expiry limit is required';
+  }
+
+  return { ttlSeconds, maxDownloads, untilDisconnect };
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ${minutes % 60} min`;
+  return `${Math.floor(hours / 24)} d ${hours % 24} h`;
+}
+
+// Short human readable summary of what's left of a file's lifetime
+export function describeRemainingLifetime(
+  file: { expiresAt: number | null; downloadsLeft: number | null; expireOnDisconnect: boolean },
+  now: number
+) {
+  const parts: string[] = [];
+  if (file.expiresAt !== null) {
+    parts.push(`Expires in ${formatDuration(Math.max(file.expiresAt - now, 0))}`);
+  }
+  if (file.downloadsLeft !== null) {
+    parts.push(`${file.downloadsLeft} download${file.downloadsLeft === 1 ? '' : 's'} left`);
+  }
+  if (file.expireOnDisconnect) {
+    parts.push('Until uploader leaves');
+  }
+  return parts.join(' • ');
+}
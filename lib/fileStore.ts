@@ -1,74 +1,585 @@
-// In-memory file store - files are NOT saved to disk
-interface StoredFile {
+import { finished, Readable } from 'stream';
+import { createStorageBackend, StorageBackend, StoredFileInfo, StoredRoom, withoutData } from '@/lib/storage';
+import { ExpiryPolicy, DISCONNECT_TIMEOUT_MS } from '@/lib/expiry';
+import { readUploadLimits } from '@/lib/limits';
+import { isTypeMismatch } from '@/lib/contentType';
+import type { ItemKind } from '@/lib/snippets';
+import { canCreateThumbnail, createThumbnail, MAX_THUMBNAIL_SOURCE_BYTES } from '@/lib/thumbnails';
+import { generateRoomId } from '@/lib/rooms';
+import type { FileMetadata } from '@/lib/api/schemas';
+import type { DeviceInfo } from '@/lib/devices';
+import { eventLog, EventActor } from '@/lib/eventLog';
+import type { ByteRange } from '@/lib/download';
+
+// File store - bytes and metadata live in the configured StorageBackend
+// (in memory by default, see lib/storage)
+export interface StoredFile {
   id: string;
+  roomId: string;
+  ownerId: string; // hashed owner token of the uploader, see lib/auth.ts
+  kind: ItemKind; // uploaded file or posted text snippet, see lib/snippets.ts
+  language: string | null; // highlighting language of a text snippet
   name: string;
+  path: string; // folder the file was uploaded from, see lib/folders.ts
   size: number;
-  type: string;
-  data: string; // base64 encoded
+  type: string; // type the file is served with, see resolveContentType in lib/contentType.ts
+  declaredType: string; // type sent by the uploader's browser
+  detectedType: string | null; // type sniffed from the content, if recognized
+  hasThumbnail: boolean; // whether a preview image is stored, see lib/thumbnails.ts
+  // Name, type and path encrypted by the uploader, see lib/e2e.ts. When set,
+  // the fields above are placeholders and the data is ciphertext.
+  encryptedMeta: string | null;
+  passwordHash: string | null; // see lib/passwords.ts and lib/access.ts
+  data: Buffer; // raw file bytes
   uploadedAt: number;
+  // Lifetime limits, see lib/expiry.ts
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  expireOnDisconnect: boolean;
+  // Device of the uploader, see lib/devices.ts; missing on files stored before it was recorded
+  device?: DeviceInfo | null;
+}
+
+// File metadata without the actual data, as sent to clients. Defined by the
+// API schemas (lib/api/schemas.ts), so the v1 API and the page share it.
+export type { FileMetadata };
+
+// Change events pushed to subscribers (e.g. the SSE stream endpoint).
+// `id` increases monotonically so clients can resume via Last-Event-ID.
+export type FileRemovalReason = 'deleted' | 'expired';
+
+// 'in-use' when others already share files in the room or have it open,
+// 'already-admin' when the room was claimed by the same owner before
+export type RoomClaimResult = 'claimed' | 'already-admin' | 'has-admin' | 'in-use';
+
+export type FileStoreEvent =
+  | { id: number; type: 'file-added'; file: StoredFileInfo }
+  | { id: number; type: 'file-updated'; file: StoredFileInfo }
+  | { id: number; type: 'file-removed'; fileId: string; reason: FileRemovalReason }
+  | { id: number; type: 'cleared' };
+
+type FileStoreEventInput =
+  | { type: 'file-added'; file: StoredFileInfo }
+  | { type: 'file-updated'; file: StoredFileInfo }
+  | { type: 'file-removed'; fileId: string; reason: FileRemovalReason }
+  | { type: 'cleared' };
+
+// How many recent events are kept around for Last-Event-ID resume
+const EVENT_HISTORY_SIZE = 500;
+// How often the sweeper looks for expired files
+const SWEEP_INTERVAL_MS = 15 * 1000;
+
+export function createFileId() {
+  return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+}
+
+// Thrown when the requesting owner isn't allowed to change a file or room
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+// `unlocked` tells whether the viewer unlocked the file's password (see canReadFile in lib/access.ts)
+export function toFileMetadata(file: StoredFileInfo, viewerOwnerId: string | null, unlocked = false): FileMetadata {
+  const ownedByMe = viewerOwnerId !== null && file.ownerId === viewerOwnerId;
+  return {
+    id: file.id,
+    kind: file.kind,
+    language: file.language,
+    name: file.name,
+    path: file.path,
+    size: file.size,
+    type: file.type,
+    declaredType: file.declaredType,
+    detectedType: file.detectedType,
+    typeMismatch: isTypeMismatch(file.declaredType, file.detectedType),
+    hasThumbnail: file.hasThumbnail,
+    encryptedMeta: file.encryptedMeta,
+    passwordProtected: file.passwordHash !== null,
+    requiresPassword: file.passwordHash !== null && !ownedByMe && !unlocked,
+    uploadedAt: file.uploadedAt,
+    ownedByMe,
+    expiresAt: file.expiresAt,
+    downloadsLeft: file.maxDownloads === null ? null : Math.max(file.maxDownloads - file.downloadCount, 0),
+    expireOnDisconnect: file.expireOnDisconnect,
+    device: file.device ?? null,
+  };
+}
+
+// Turns a policy into the lifetime fields stored on a file
+export function applyExpiryPolicy(policy: ExpiryPolicy, uploadedAt: number) {
+  return {
+    expiresAt: policy.ttlSeconds === null ? null : uploadedAt + policy.ttlSeconds * 1000,
+    maxDownloads: policy.maxDownloads,
+    downloadCount: 0,
+    expireOnDisconnect: policy.untilDisconnect,
+  };
+}
+
+// Files with a download limit get no thumbnail, since it would show their
+// content without using up a download. Neither do encrypted files, whose
+// content the server must not see.
+export function canHaveThumbnail(file: StoredFileInfo) {
+  return file.maxDownloads === null && file.encryptedMeta === null;
+}
+
+// Per-room state. Admin, password and heartbeats are saved in the storage
+// backend too (see saveRoom), listeners and events only live in memory.
+interface RoomState {
+  listeners: Set<(event: FileStoreEvent) => void>;
+  // Owner who created the room; may delete any file in it and clear it
+  adminOwnerId: string | null;
+  // Password everyone but the admin needs to enter the room, see lib/access.ts
+  passwordHash: string | null;
+  // Last heartbeat of each connected owner, by owner ID
+  ownerLastSeen: Map<string, number>;
+  lastEventId: number;
+  eventHistory: FileStoreEvent[];
 }
 
 class FileStore {
-  private files: Map<string, StoredFile> = new Map();
-  private listeners: Set<(files: StoredFile[]) => void> = new Set();
-  private uploaderSessionId: string | null = null;
+  private rooms: Map<string, RoomState> = new Map();
+  private roomsLoaded: Promise<void>;
+  private roomWrites: Promise<unknown> = Promise.resolve();
+  // Download counting runs one at a time per file, so two downloads can't both take the last one
+  private downloadCounts: Map<string, Promise<unknown>> = new Map();
+  // Files whose last download is still being served - removed once it's done
+  private burning: Set<string> = new Set();
+
+  constructor(private storage: StorageBackend) {
+    this.roomsLoaded = this.loadRooms();
+    const sweeper = setInterval(() => {
+      this.sweepExpired().catch(error => console.error('Error sweeping expired files:', error));
+    }, SWEEP_INTERVAL_MS);
+    // Don't keep the process alive just for the sweeper
+    sweeper.unref?.();
+  }
+
+  // Creates the room's state if needed - only for changes, look-ups use this.rooms
+  // directly, so requests for made-up room IDs don't fill the map
+  private getRoom(roomId: string): RoomState {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        listeners: new Set(),
+        adminOwnerId: null,
+        passwordHash: null,
+        ownerLastSeen: new Map(),
+        lastEventId: 0,
+        eventHistory: [],
+      };
+      this.rooms.set(roomId, room);
+    }
+    return room;
+  }
+
+  // Drops the state of a room that has nothing worth keeping (anymore)
+  private dropIfUnused(roomId: string) {
+    const room = this.rooms.get(roomId);
+    if (
+      room && room.listeners.size === 0 && room.adminOwnerId === null && room.passwordHash === null &&
+      room.ownerLastSeen.size === 0 && room.eventHistory.length === 0
+    ) {
+      this.rooms.delete(roomId);
+    }
+  }
+
+  // Resolves once the saved room settings are loaded; instrumentation.ts waits
+  // for it, so no request sees a protected room as open after a restart
+  ready() {
+    return this.roomsLoaded;
+  }
+
+  private async loadRooms() {
+    for (const stored of await this.storage.listRooms()) {
+      const room = this.getRoom(stored.id);
+      room.adminOwnerId = stored.adminOwnerId;
+      room.passwordHash = stored.passwordHash;
+      for (const [ownerId, lastSeen] of Object.entries(stored.ownerLastSeen)) {
+        room.ownerLastSeen.set(ownerId, Math.max(lastSeen, room.ownerLastSeen.get(ownerId) ?? 0));
+      }
+    }
+  }
+
+  // Saves the room's settings in the storage backend. Writes are chained, and
+  // each one saves the state at the time it runs, so the latest state lands last.
+  private saveRoom(roomId: string) {
+    const write = this.roomWrites.then(() => {
+      const room = this.getRoom(roomId);
+      const stored: StoredRoom = {
+        id: roomId,
+        adminOwnerId: room.adminOwnerId,
+        passwordHash: room.passwordHash,
+        ownerLastSeen: Object.fromEntries(room.ownerLastSeen),
+      };
+      return this.storage.putRoom(stored);
+    });
+    // The next write waits for this one, whether it worked or not
+    this.roomWrites = write.catch(() => undefined);
+    return write;
+  }
+
+  // `ip` is the uploader's address, for the audit log (see lib/eventLog.ts)
+  async addFile(file: StoredFile, ip: string | null = null) {
+    await this.storage.put(file);
+    this.fileAdded(withoutData(file), ip, async () => file.data);
+  }
+
+  // Same as addFile, with the bytes read from a stream (e.g. an assembled
+  // resumable upload), so a large file is never held in memory in one piece
+  async addFileFromStream(info: StoredFileInfo, data: Readable, ip: string | null = null) {
+    await this.storage.putStream(info, data);
+    this.fileAdded(info, ip, async () => (await this.storage.get(info.id))?.data);
+  }
+
+  private fileAdded(info: StoredFileInfo, ip: string | null, readData: () => Promise<Buffer | undefined>) {
+    // Uploading counts as being connected, so "until disconnect" files get the full grace period
+    this.touchOwner(info.roomId, info.ownerId);
+    this.notifyListeners(info.roomId, { type: 'file-added', file: info });
+    eventLog.record('file.uploaded', info.roomId, info, { ownerId: info.ownerId, ip });
+
+    // Clients pick the thumbnail up from the file-updated event once it's ready
+    if (canCreateThumbnail(info.type) && canHaveThumbnail(info) && info.size <= MAX_THUMBNAIL_SOURCE_BYTES) {
+      readData()
+        .then(data => data && createThumbnail(data))
+        .then(thumbnail => thumbnail && this.setThumbnail(info, thumbnail))
+        .catch(error => console.error('Error creating thumbnail:', error));
+    }
+  }
+
+  // The file whose thumbnail the owner may set; undefined if there's no such file.
+  // Checked before decoding an uploaded image, so strangers can't make the server decode one.
+  async getThumbnailTarget(roomId: string, id: string, ownerId: string | null) {
+    const info = await this.storage.getInfo(id);
+    if (info?.roomId !== roomId || this.isExpired(info, Date.now())) {
+      return undefined;
+    }
+    if (info.ownerId !== ownerId && !this.isRoomAdmin(roomId, ownerId)) {
+      throw new PermissionError('Only the uploader or a room admin can set the thumbnail of this file');
+    }
+    return canHaveThumbnail(info) ? info : undefined;
+  }
+
+  // Stores a thumbnail made by the uploader's browser (e.g. a video poster frame).
+  // Returns false if the file doesn't exist or can't have a thumbnail.
+  async putThumbnail(roomId: string, id: string, ownerId: string | null, data: Buffer) {
+    // Checked again, the file may have gone while the image was decoded
+    const info = await this.getThumbnailTarget(roomId, id, ownerId);
+    if (!info) {
+      return false;
+    }
+    await this.setThumbnail(info, data);
+    return true;
+  }
+
+  private async setThumbnail(file: StoredFileInfo, data: Buffer) {
+    await this.storage.putThumbnail(file.id, data);
+    const updated = await this.storage.update(file.id, { hasThumbnail: true });
+    if (updated) {
+      this.notifyListeners(file.roomId, { type: 'file-updated', file: updated });
+    }
+  }
+
+  // Same visibility rules as getFile, without reading the bytes
+  async getFileInfo(roomId: string, id: string): Promise<StoredFileInfo | undefined> {
+    const info = await this.storage.getInfo(id);
+    if (info?.roomId !== roomId || this.isExpired(info, Date.now())) {
+      return undefined;
+    }
+    return info;
+  }
+
+  // Same visibility rules as getFile; serving a thumbnail doesn't count as a download
+  async getThumbnail(roomId: string, id: string): Promise<Buffer | undefined> {
+    const info = await this.storage.getInfo(id);
+    if (info?.roomId !== roomId || !info.hasThumbnail || this.isExpired(info, Date.now())) {
+      return undefined;
+    }
+    return this.storage.getThumbnail(id);
+  }
+
+  // Only the uploader or the room admin may remove a file
+  async removeFile(roomId: string, id: string, ownerId: string | null, ip: string | null = null) {
+    const info = await this.storage.getInfo(id);
+    if (info?.roomId !== roomId) {
+      return;
+    }
+    if (info.ownerId !== ownerId && !this.isRoomAdmin(roomId, ownerId)) {
+      throw new PermissionError('Only the uploader or a room admin can delete this file');
+    }
+    await this.deleteFile(info, 'deleted', { ownerId, ip });
+  }
 
-  addFile(file: StoredFile) {
-    this.files.set(file.id, file);
-    this.notifyListeners();
+  // Removes every file the owner uploaded to the room
+  async removeOwnFiles(roomId: string, ownerId: string, ip: string | null = null) {
+    const files = await this.storage.list(roomId);
+    for (const file of files) {
+      if (file.ownerId === ownerId) {
+        await this.deleteFile(file, 'deleted', { ownerId, ip });
+      }
+    }
   }
 
-  removeFile(id: string) {
-    this.files.delete(id);
-    this.notifyListeners();
+  // `actor` is null when the server removes the file itself
+  private async deleteFile(file: StoredFileInfo, reason: FileRemovalReason, actor: EventActor | null) {
+    if (await this.storage.delete(file.id)) {
+      this.notifyListeners(file.roomId, { type: 'file-removed', fileId: file.id, reason });
+      eventLog.record(reason === 'expired' ? 'file.expired' : 'file.deleted', file.roomId, file, actor);
+    }
   }
 
-  getAllFiles(): StoredFile[] {
-    return Array.from(this.files.values());
+  // Metadata for every file in the room, without the bytes.
+  // Expired files the sweeper hasn't reached yet are left out.
+  async getAllFiles(roomId: string): Promise<StoredFileInfo[]> {
+    const now = Date.now();
+    const files = await this.storage.list(roomId);
+    return files.filter(file => !this.isExpired(file, now));
   }
 
-  getFile(id: string): StoredFile | undefined {
-    return this.files.get(id);
+  // Files from other rooms (or already expired) are treated as not found
+  async getFile(roomId: string, id: string): Promise<StoredFile | undefined> {
+    const file = await this.storage.get(id);
+    if (file?.roomId !== roomId) {
+      return undefined;
+    }
+    if (this.isExpired(file, Date.now())) {
+      if (!this.burning.has(file.id)) {
+        await this.deleteFile(file, 'expired', null);
+      }
+      return undefined;
+    }
+    return file;
   }
 
-  clearAll() {
-    this.files.clear();
-    this.uploaderSessionId = null;
-    this.notifyListeners();
+  // The bytes of a file looked up with getFileInfo, or just `range` of them, read as
+  // the stream is consumed. Undefined if the file is gone by now.
+  async readFile(file: StoredFileInfo, range?: ByteRange): Promise<Readable | undefined> {
+    return this.storage.getStream(file.id, range);
   }
 
-  setUploaderSession(sessionId: string) {
-    this.uploaderSessionId = sessionId;
+  // Counts a download and burns the file once its download limit is used up.
+  // Returns false, without counting, if the limit was already used up.
+  // `reading` is the stream the download is served from - a burnt file is only
+  // removed once it's done, so the last download isn't cut off.
+  async recordDownload(file: StoredFileInfo, reading?: Readable): Promise<boolean> {
+    if (file.maxDownloads === null) {
+      return true;
+    }
+    const previous = this.downloadCounts.get(file.id) ?? Promise.resolve();
+    const counted = previous.then(() => this.countDownload(file.id, reading));
+    const settled = counted.catch(() => undefined);
+    this.downloadCounts.set(file.id, settled);
+    settled.then(() => {
+      if (this.downloadCounts.get(file.id) === settled) this.downloadCounts.delete(file.id);
+    });
+    return counted;
+  }
+
+  private async countDownload(id: string, reading?: Readable) {
+    const current = await this.storage.getInfo(id);
+    if (!current || current.maxDownloads === null || current.downloadCount >= current.maxDownloads) {
+      return false;
+    }
+
+    const updated = await this.storage.update(id, { downloadCount: current.downloadCount + 1 });
+    if (!updated) {
+      return false;
+    }
+    if (updated.maxDownloads !== null && updated.downloadCount >= updated.maxDownloads) {
+      if (reading) {
+        this.burning.add(id);
+        finished(reading, () => {
+          this.burning.delete(id);
+          this.deleteFile(updated, 'expired', null).catch(error => console.error('Error deleting file:', error));
+        });
+      } else {
+        await this.deleteFile(updated, 'expired', null);
+      }
+      return true;
+    }
+    this.notifyListeners(updated.roomId, { type: 'file-updated', file: updated });
+    return true;
   }
 
-  getUploaderSession(): string | null {
-    return this.uploaderSessionId;
+  // Records a heartbeat from an owner's open page
+  touchOwner(roomId: string, ownerId: string) {
+    this.getRoom(roomId).ownerLastSeen.set(ownerId, Date.now());
+    this.saveRoom(roomId).catch(error => console.error('Error saving room:', error));
   }
 
-  clearIfUploaderRefreshed(sessionId: string) {
-    // If there are files and the session ID doesn't match the uploader's session,
-    // it means uploader refreshed (got new session), so clear all files
-    // This ensures files are only visible until uploader's device refreshes
-    if (this.files.size > 0 && this.uploaderSessionId && this.uploaderSessionId !== sessionId) {
-      console.log('Uploader refreshed - clearing all files. Old session:', this.uploaderSessionId, 'New session:', sessionId);
-      this.clearAll();
+  private isExpired(file: StoredFileInfo, now: number) {
+    if (file.expiresAt !== null && file.expiresAt <= now) {
       return true;
     }
+    if (file.maxDownloads !== null && file.downloadCount >= file.maxDownloads) {
+      return true;
+    }
+    if (file.expireOnDisconnect) {
+      // Before the first heartbeat the upload time counts
+      const lastSeen = this.rooms.get(file.roomId)?.ownerLastSeen.get(file.ownerId) ?? file.uploadedAt;
+      return now - lastSeen > DISCONNECT_TIMEOUT_MS;
+    }
     return false;
   }
 
-  addListener(listener: (files: StoredFile[]) => void) {
-    this.listeners.add(listener);
+  // Removes every expired file across all rooms
+  async sweepExpired() {
+    // Until the heartbeats are loaded, every "until disconnect" file would look abandoned
+    await this.roomsLoaded;
+    const now = Date.now();
+    const files = await this.storage.listAll();
+    for (const file of files) {
+      if (this.isExpired(file, now) && !this.burning.has(file.id)) {
+        await this.deleteFile(file, 'expired', null);
+      }
+    }
+
+    // Heartbeats of owners long gone (their "until disconnect" files just went),
+    // then the rooms left with nothing in them
+    this.rooms.forEach((room, roomId) => {
+      room.ownerLastSeen.forEach((lastSeen, ownerId) => {
+        if (now - lastSeen > DISCONNECT_TIMEOUT_MS) room.ownerLastSeen.delete(ownerId);
+      });
+      this.dropIfUnused(roomId);
+    });
+  }
+
+  // Only the room admin may clear the whole room
+  async clearAll(roomId: string, ownerId: string | null, ip: string | null = null) {
+    if (!this.isRoomAdmin(roomId, ownerId)) {
+      throw new PermissionError('Only a room admin can clear all files');
+    }
+    await this.storage.clear(roomId);
+    this.notifyListeners(roomId, { type: 'cleared' });
+    eventLog.record('room.cleared', roomId, null, { ownerId, ip });
+  }
+
+  // Makes the owner admin of a room nobody has claimed or is using yet - the
+  // admin could otherwise clear, lock or audit a room others already share in
+  async claimRoom(roomId: string, ownerId: string): Promise<RoomClaimResult> {
+    await this.roomsLoaded;
+    const inUse = await this.isRoomInUse(roomId, ownerId);
+    // Checked and set without awaiting in between, so two claims can't both win
+    const adminOwnerId = this.rooms.get(roomId)?.adminOwnerId ?? null;
+    if (adminOwnerId === ownerId) {
+      return 'already-admin';
+    }
+    if (adminOwnerId) {
+      return 'has-admin';
+    }
+    if (inUse) {
+      return 'in-use';
+    }
+    this.getRoom(roomId).adminOwnerId = ownerId;
+    await this.saveRoom(roomId);
+    return 'claimed';
+  }
+
+  // Whether anyone but `ownerId` has files in the room or a page open on it
+  private async isRoomInUse(roomId: string, ownerId: string) {
+    const now = Date.now();
+    for (const [otherOwnerId, lastSeen] of this.rooms.get(roomId)?.ownerLastSeen ?? []) {
+      if (otherOwnerId !== ownerId && now - lastSeen <= DISCONNECT_TIMEOUT_MS) {
+        return true;
+      }
+    }
+    const files = await this.storage.list(roomId);
+    return files.some(file => file.ownerId !== ownerId && !this.isExpired(file, now));
+  }
+
+  // Claims a random room name for the owner; null if no free one was found
+  async claimRandomRoom(ownerId: string) {
+    // Random names can collide with a claimed or used room - just try another one
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const roomId = generateRoomId();
+      if (await this.claimRoom(roomId, ownerId) === 'claimed') return roomId;
+    }
+    return null;
+  }
+
+  isRoomAdmin(roomId: string, ownerId: string | null) {
+    return ownerId !== null && this.rooms.get(roomId)?.adminOwnerId === ownerId;
+  }
+
+  // Only the room admin may set or remove the room password (null removes it)
+  async setRoomPassword(roomId: string, ownerId: string | null, passwordHash: string | null) {
+    if (!this.isRoomAdmin(roomId, ownerId)) {
+      throw new PermissionError('Only a room admin can change the room password');
+    }
+    this.getRoom(roomId).passwordHash = passwordHash;
+    await this.saveRoom(roomId);
+  }
+
+  getRoomPasswordHash(roomId: string) {
+    return this.rooms.get(roomId)?.passwordHash ?? null;
+  }
+
+  isRoomProtected(roomId: string) {
+    return this.getRoomPasswordHash(roomId) !== null;
+  }
+
+  // Bytes stored across all rooms, and by `ownerId`, for the upload quotas
+  async getUsage(ownerId: string) {
+    const files = await this.storage.listAll();
+    let totalBytes = 0;
+    let ownerBytes = 0;
+    for (const file of files) {
+      totalBytes += file.size;
+      if (file.ownerId === ownerId) ownerBytes += file.size;
+    }
+    return { totalBytes, ownerBytes };
+  }
+
+  getStorageInfo() {
+    return { backend: this.storage.name, persistent: this.storage.persistent };
+  }
+
+  getLastEventId(roomId: string): number {
+    return this.rooms.get(roomId)?.lastEventId ?? 0;
+  }
+
+  // Returns the room's events after `eventId`, or null if they can no longer be
+  // replayed (too old, or the id is from before a server restart) and the
+  // client needs a full snapshot instead.
+  getEventsSince(roomId: string, eventId: number): FileStoreEvent[] | null {
+    const room = this.rooms.get(roomId);
+    const lastEventId = room?.lastEventId ?? 0;
+    if (eventId > lastEventId) {
+      return null;
+    }
+    if (eventId === lastEventId) {
+      return [];
+    }
+    const oldest = room?.eventHistory[0];
+    if (!room || !oldest || oldest.id > eventId + 1) {
+      return null;
+    }
+    return room.eventHistory.filter(event => event.id > eventId);
+  }
+
+  addListener(roomId: string, listener: (event: FileStoreEvent) => void) {
+    const room = this.getRoom(roomId);
+    room.listeners.add(listener);
     return () => {
-      this.listeners.delete(listener);
+      room.listeners.delete(listener);
+      this.dropIfUnused(roomId);
     };
   }
 
-  private notifyListeners() {
-    const files = this.getAllFiles();
-    this.listeners.forEach(listener => {
+  private notifyListeners(roomId: string, input: FileStoreEventInput) {
+    const room = this.getRoom(roomId);
+    const event = { ...input, id: ++room.lastEventId } as FileStoreEvent;
+    room.eventHistory.push(event);
+    if (room.eventHistory.length > EVENT_HISTORY_SIZE) {
+      room.eventHistory.shift();
+    }
+
+    room.listeners.forEach(listener => {
       try {
-        listener(files);
+        listener(event);
       } catch (error) {
         console.error('Error notifying listener:', error);
       }
@@ -76,6 +587,11 @@ class FileStore {
   }
 }
 
-// Singleton instance - files stored in memory only
-export const fileStore = new FileStore();
+// Singleton instance, kept on globalThis so dev hot reloads don't create a second store
+const globalForFileStore = globalThis as unknown as { fileStore?: FileStore };
+
+export const fileStore = globalForFileStore.fileStore ?? new FileStore(createStorageBackend());
+globalForFileStore.fileStore = fileStore;
 
+// Upload limits from the environment, see lib/limits.ts
+export const uploadLimits = readUploadLimits();
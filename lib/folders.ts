@@ -0,0 +1,74 @@
+// Folder uploads: every file keeps the directory it was in, relative to the
+// uploaded folder ("photos/2024"), or "" for files uploaded on their own.
+// Shared by the API routes and the page, so keep it free of Node APIs.
+
+const MAX_PATH_LENGTH = 1024;
+const MAX_PATH_DEPTH = 32;
+
+// Normalizes a folder path from a request: forward slashes, no empty, "." or
+// ".." segments and no leading or trailing slash. Returns null if it's too long.
+export function normalizeFolderPath(value: unknown): string | null {
+  if (typeof value !== 'string') return '';
+  const segments = value.replace(/\\/g, '/').split('/')
+    .map(segment => segment.replace(/[\u0000-\u001f]/g, '').trim())
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+  const path = segments.join('/');
+  if (path.length > MAX_PATH_LENGTH || segments.length > MAX_PATH_DEPTH) return null;
+  return path;
+}
+
+// Folder part of a browser-provided relative path ("photos/2024/a.jpg" -> "photos/2024")
+export function folderOf(relativePath: string) {
+  const index = relativePath.lastIndexOf('/');
+  return index === -1 ? '' : relativePath.slice(0, index);
+}
+
+export function isInFolder(path: string, folder: string) {
+  return folder === '' || path === folder || path.startsWith(`${folder}/`);
+}
+
+export interface FolderNode<T> {
+  name: string;
+  path: string;
+  folders: FolderNode<T>[];
+  files: T[];
+  // Totals including all subfolders
+  fileCount: number;
+  totalSize: number;
+}
+
+// Groups files into a tree by their path, folders sorted by name
+export function buildFolderTree<T extends { path: string; size: number }>(files: T[]): FolderNode<T> {
+  const root: FolderNode<T> = { name: '', path: '', folders: [], files: [], fileCount: 0, totalSize: 0 };
+
+  for (const file of files) {
+    let node = root;
+    node.fileCount++;
+    node.totalSize += file.size;
+    for (const segment of file.path ? file.path.split('/') : []) {
+      let child = node.folders.find(folder => folder.name === segment);
+      if (!child) {
+        child = {
+          name: segment,
+          path: node.path ? `${node.path}/${segment}` : segment,
+          folders: [],
+          files: [],
+          fileCount: 0,
+          totalSize: 0,
+        };
+        node.folders.push(child);
+      }
+      node = child;
+      node.fileCount++;
+      node.totalSize += file.size;
+    }
+    node.files.push(file);
+  }
+
+  const sortFolders = (node: FolderNode<T>) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.folders.forEach(sortFolders);
+  };
+  sortFolders(root);
+  return root;
+}
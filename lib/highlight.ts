@@ -0,0 +1,52 @@
+// Renders text snippets for the page: syntax highlighting (highlight.js with
+// its common languages) plus clickable http(s) links.
+
+import hljs from 'highlight.js/lib/common';
+
+// Highlighting large texts would block the page for too long
+const MAX_HIGHLIGHT_LENGTH = 100 * 1024;
+// Auto detection below this relevance is mostly guessing - show plain text instead
+const MIN_AUTO_RELEVANCE = 5;
+// Stops at escaped quotes, since the text has already been through escapeHtml or highlight.js
+const URL_PATTERN = /\bhttps?:\/\/(?:(?!&quot;|&#x27;|&#39;)[^\s<>"'])+/g;
+// Characters that usually end a sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/;
+
+export function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// Wraps URLs in the text parts of already escaped HTML in links
+function linkify(html: string) {
+  return html.split(/(<[^>]+>)/).map(part => {
+    if (part.startsWith('<')) return part;
+    return part.replace(URL_PATTERN, match => {
+      const trailing = TRAILING_PUNCTUATION.exec(match)?.[0] ?? '';
+      const url = match.slice(0, match.length - trailing.length);
+      return `<a href="${url}" target="_blank" rel="noopener noreferrer" class="text-blue-600 underline">${url}</a>${trailing}`;
+    });
+  }).join('');
+}
+
+// Returns HTML that is safe to insert: highlight.js escapes the source text
+export function renderSnippetHtml(text: string, language: string | null) {
+  let html: string;
+  if (text.length > MAX_HIGHLIGHT_LENGTH) {
+    html = escapeHtml(text);
+  } else if (language && language !== 'plaintext' && hljs.getLanguage(language)) {
+    html = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+  } else if (language === null) {
+    const result = hljs.highlightAuto(text);
+    html = result.relevance >= MIN_AUTO_RELEVANCE ? result.value : escapeHtml(text);
+  } else {
+    html = escapeHtml(text);
+  }
+  return linkify(html);
+}
+
+// Highlighting language for a file, from its extension (highlight.js knows most
+// extensions as language aliases). Returns null if there's no matching language.
+export function languageForFileName(name: string) {
+  const extension = /\.([a-z0-9+]+)$/i.exec(name)?.[1].toLowerCase();
+  return extension && hljs.getLanguage(extension) ? extension : null;
+}
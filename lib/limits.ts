@@ -0,0 +1,149 @@
+// Upload limits, configured from the environment:
+//   MAX_FILE_SIZE        - largest accepted file (default: 1 GB)
+//   MAX_FILES_PER_UPLOAD - files per multipart upload / selection (default: 500)
+//   MAX_STORE_BYTES      - total bytes across all rooms (default: 4 GB)
+//   OWNER_QUOTA_BYTES    - bytes a single uploader may have stored (default: 1 GB)
+//   ALLOWED_FILE_TYPES   - comma separated MIME types or extensions, e.g. "image/*,application/pdf,.txt"
+//   BLOCKED_FILE_TYPES   - same format, checked before the allow list
+// Sizes accept K/M/G suffixes ("500M"), and 0 turns a limit off.
+// The page gets the same limits to check files before sending them, so keep
+// this free of Node APIs; the server remains the one enforcing them.
+
+export interface UploadLimits {
+  maxFileSize: number | null;
+  maxFilesPerUpload: number | null;
+  maxStoreBytes: number | null;
+  ownerQuotaBytes: number | null;
+  allowedTypes: string[];
+  blockedTypes: string[];
+}
+
+export type LimitErrorCode =
+  | 'file_too_large'
+  | 'too_many_files'
+  | 'store_full'
+  | 'quota_exceeded'
+  | 'unsupported_type';
+
+export class LimitError extends Error {
+  constructor(
+    message: string,
+    public status: 413 | 415,
+    public code: LimitErrorCode,
+    public fileName?: string,
+  ) {
+    super(message);
+    this.name = 'LimitError';
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code, fileName: this.fileName };
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+
+function parseSize(value: string | undefined, fallback: number | null) {
+  if (value === undefined || value.trim() === '') return fallback;
+  const match = /^(\d+)\s*([KMG]?)B?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid size "${value}" (expected e.g. 500M or 2G)`);
+  }
+  const bytes = Number(match[1]) * SIZE_UNITS[match[2].toUpperCase()];
+  return bytes === 0 ? null : bytes;
+}
+
+function parseCount(value: string | undefined, fallback: number | null) {
+  if (value === undefined || value.trim() === '') return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid count "${value}"`);
+  }
+  return count === 0 ? null : count;
+}
+
+function parseTypeList(value: string | undefined) {
+  return (value || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+}
+
+export function readUploadLimits(env: Record<string, string | undefined> = process.env): UploadLimits {
+  return {
+    maxFileSize: parseSize(env.MAX_FILE_SIZE, 1024 ** 3),
+    maxFilesPerUpload: parseCount(env.MAX_FILES_PER_UPLOAD, 500),
+    maxStoreBytes: parseSize(env.MAX_STORE_BYTES, 4 * 1024 ** 3),
+    ownerQuotaBytes: parseSize(env.OWNER_QUOTA_BYTES, 1024 ** 3),
+    allowedTypes: parseTypeList(env.ALLOWED_FILE_TYPES),
+    blockedTypes: parseTypeList(env.BLOCKED_FILE_TYPES),
+  };
+}
+
+// Entries are exact MIME types, wildcards like "image/*" or extensions like ".pdf"
+function matchesType(entry: string, name: string, type: string) {
+  if (entry.startsWith('.')) return name.toLowerCase().endsWith(entry);
+  if (entry.endsWith('/*')) return type.toLowerCase().startsWith(entry.slice(0, -1));
+  return type.toLowerCase() === entry;
+}
+
+export function formatLimit(bytes: number) {
+  if (bytes >= 1024 ** 3) return `${+(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${+(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} bytes`;
+}
+
+// Checks a single file's size and type. Throws a LimitError if it isn't accepted.
+export function checkFile(limits: UploadLimits, file: { name: string; size: number; type: string }) {
+  if (limits.maxFileSize !== null && file.size > limits.maxFileSize) {
+    throw new LimitError(
+      `${file.name} is larger than the ${formatLimit(limits.maxFileSize)} limit`,
+      413, 'file_too_large', file.name,
+    );
+  }
+
+  const blocked = limits.blockedTypes.some(entry => matchesType(entry, file.name, file.type));
+  const allowed = limits.allowedTypes.length === 0 ||
+    limits.allowedTypes.some(entry => matchesType(entry, file.name, file.type));
+  if (blocked || !allowed) {
+    throw new LimitError(
+      `${file.name}: files of type ${file.type || 'unknown'} are not accepted`,
+      415, 'unsupported_type', file.name,
+    );
+  }
+}
+
+export function checkFileCount(limits: UploadLimits, count: number) {
+  if (limits.maxFilesPerUpload !== null && count > limits.maxFilesPerUpload) {
+    throw new LimitError(
+      `At most ${limits.maxFilesPerUpload} files can be uploaded at once`,
+      413, 'too_many_files',
+    );
+  }
+}
+
+export interface Usage {
+  totalBytes: number;
+  ownerBytes: number;
+}
+
+// Stored bytes plus `staged` ones still being uploaded (see lib/uploadSessions.ts)
+export function addUsage(usage: Usage, staged: Usage): Usage {
+  return { totalBytes: usage.totalBytes + staged.totalBytes, ownerBytes: usage.ownerBytes + staged.ownerBytes };
+}
+
+// Checks that `bytes` more would fit in the store and in the uploader's quota
+export function checkQuota(
+  limits: UploadLimits,
+  usage: Usage,
+  bytes: number,
+  fileName?: string,
+) {
+  if (limits.maxStoreBytes !== null && usage.totalBytes + bytes > limits.maxStoreBytes) {
+    throw new LimitError('The server is out of space for new files', 413, 'store_full', fileName);
+  }
+  if (limits.ownerQuotaBytes !== null && usage.ownerBytes + bytes > limits.ownerQuotaBytes) {
+    throw new LimitError(
+      `Upload would exceed your ${formatLimit(limits.ownerQuotaBytes)} quota - delete some of your files first`,
+      413, 'quota_exceeded', fileName,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+// Page URL state kept in the location hash. The room key for end-to-end
+// encryption lives in the fragment (see lib/e2e.ts), which browsers never send
+// to the server, so it can only be read in the page.
+
+import { useSyncExternalStore } from 'react';
+import { readKeyFromHash } from '@/lib/e2e';
+
+function subscribeToHash(onChange: () => void) {
+  window.addEventListener('hashchange', onChange);
+  return () => window.removeEventListener('hashchange', onChange);
+}
+const readRoomKey = () => readKeyFromHash(window.location.hash);
+const readHref = () => window.location.href;
+const onServer = () => null;
+
+// The room key from the URL fragment, null if there is none
+export function useRoomKey() {
+  return useSyncExternalStore(subscribeToHash, readRoomKey, onServer);
+}
+
+// The full page URL including the fragment, null while rendering on the server
+export function useLocationHref() {
+  return useSyncExternalStore(subscribeToHash, readHref, onServer);
+}
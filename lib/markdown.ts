@@ -0,0 +1,39 @@
+// Renders shared Markdown files for previews (marked, GitHub flavoured).
+// Uploads are untrusted, so raw HTML is shown as text, links are limited to
+// http(s)/mailto and code blocks go through the snippet highlighter.
+
+import { Marked } from 'marked';
+import { escapeHtml, renderSnippetHtml } from '@/lib/highlight';
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+// Images would be loaded as soon as the preview is shown, so only over https
+const SAFE_IMAGE = /^https:/i;
+
+const markdown = new Marked({
+  gfm: true,
+  async: false,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      if (!SAFE_LINK.test(href)) return text;
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${titleAttribute} target="_blank" rel="noopener noreferrer">${text}</a>`;
+    },
+    image({ href, text }) {
+      if (!SAFE_IMAGE.test(href)) return escapeHtml(text);
+      return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}" loading="lazy" referrerpolicy="no-referrer">`;
+    },
+    code({ text, lang }) {
+      const language = lang?.split(/\s/)[0] || null;
+      return `<pre><code class="hljs">${renderSnippetHtml(text, language)}</code></pre>`;
+    },
+  },
+});
+
+// Returns HTML that is safe to insert
+export function renderMarkdownHtml(text: string) {
+  return markdown.parse(text) as string;
+}
@@ -0,0 +1,29 @@
+import os from 'os';
+import { Bonjour } from 'bonjour-service';
+
+// Advertises the server on the local network over mDNS/Bonjour, so phones and
+// laptops on the same network can find it (e.g. as "AU Media on <hostname>"
+// in a Bonjour browser, or at <hostname>.local) without typing an IP address.
+// Off by default; started from instrumentation.ts. Configured from the environment:
+//   MDNS_ADVERTISE - "true" to advertise the server
+//   MDNS_NAME      - service name (default: "AU Media on <hostname>")
+// The advertised port is the one the server listens on (PORT, default 3000).
+
+const SERVICE_TYPE = 'http';
+
+// Kept on globalThis, so the service is only published once per process
+const globalForMdns = globalThis as unknown as { mdns?: Bonjour };
+
+export function startMdnsAdvertisement(env: Record<string, string | undefined> = process.env) {
+  if (env.MDNS_ADVERTISE?.toLowerCase() !== 'true' || globalForMdns.mdns) return;
+
+  const port = Number(env.PORT) || 3000;
+  const name = env.MDNS_NAME || `AU Media on ${os.hostname()}`;
+  // Errors (e.g. no multicast-capable interface) are logged, the server keeps running
+  const bonjour = new Bonjour({}, (error: unknown) => console.error('Error advertising over mDNS:', error));
+  globalForMdns.mdns = bonjour;
+
+  const service = bonjour.publish({ name, type: SERVICE_TYPE, port, txt: { path: '/' } });
+  service.on('up', () => console.log(`Advertising "${name}" on the local network (_${SERVICE_TYPE}._tcp, port ${port})`));
+  service.on('error', (error: unknown) => console.error('Error advertising over mDNS:', error));
+}
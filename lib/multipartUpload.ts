@@ -0,0 +1,115 @@
+import type { NextRequest } from 'next/server';
+import { fileStore, uploadLimits, toFileMetadata, applyExpiryPolicy, createFileId, StoredFile } from '@/lib/fileStore';
+import { parseExpiryPolicy } from '@/lib/expiry';
+import { LimitError, addUsage, checkFile, checkFileCount, checkQuota } from '@/lib/limits';
+import { normalizeContentType, resolveContentType } from '@/lib/contentType';
+import { normalizeFolderPath } from '@/lib/folders';
+import { hashPassword, isValidPassword } from '@/lib/passwords';
+import { uploadSessions, UploadError } from '@/lib/uploadSessions';
+import { getClientIp } from '@/lib/auth';
+import { getDevice } from '@/lib/devices';
+
+// Single-request multipart uploads (`files` fields, plus optional `paths`,
+// expiry fields and `password`), shared by POST /api/files and the v1 API.
+// Large files go through resumable uploads instead, see lib/uploadSessions.ts.
+
+// Room for the multipart boundaries and part headers around the file bytes
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Stores the files of the request in the room; throws UploadError or LimitError when it's rejected
+export async function storeMultipartUpload(request: NextRequest, roomId: string, ownerId: string) {
+  // Reject oversized bodies from the Content-Length alone, before anything is buffered
+  const contentLength = Number(request.headers.get('content-length'));
+  if (!contentLength) {
+    throw new UploadError('Content-Length is required', 411);
+  }
+  // No upload can hold more than the larger of one file at the size limit and a full quota
+  // (or whichever of the two is set)
+  const sizeLimits = [uploadLimits.maxFileSize, uploadLimits.ownerQuotaBytes].filter(limit => limit !== null);
+  if (sizeLimits.length > 0 && contentLength > Math.max(...sizeLimits) + MULTIPART_OVERHEAD_BYTES) {
+    throw new LimitError('Upload is larger than the server accepts', 413, 'file_too_large');
+  }
+  // Resumable uploads in progress count with their declared size
+  const usage = addUsage(await fileStore.getUsage(ownerId), await uploadSessions.getStagedUsage(ownerId));
+  checkQuota(uploadLimits, usage, Math.max(contentLength - MULTIPART_OVERHEAD_BYTES, 0));
+
+  const formData = await request.formData().catch(() => {
+    throw new UploadError('Invalid multipart body', 400);
+  });
+  const files = formData.getAll('files').filter(file => file instanceof File);
+
+  if (files.length === 0) {
+    throw new UploadError('No files provided', 400);
+  }
+
+  // Folder uploads send the folder of each file as `paths`, in the same order as `files`
+  const paths = files.map((_, index) => normalizeFolderPath(formData.getAll('paths')[index]));
+  if (paths.includes(null)) {
+    throw new UploadError('path is too long', 400);
+  }
+
+  checkFileCount(uploadLimits, files.length);
+  for (const file of files) {
+    checkFile(uploadLimits, { name: file.name, size: file.size, type: normalizeContentType(file.type) });
+  }
+  checkQuota(uploadLimits, usage, files.reduce((total, file) => total + file.size, 0));
+
+  const expiry = parseExpiryPolicy(formData.has('ttlSeconds') || formData.has('maxDownloads') || formData.has('untilDisconnect')
+    ? {
+      ttlSeconds: formData.get('ttlSeconds'),
+      maxDownloads: formData.get('maxDownloads'),
+      untilDisconnect: formData.get('untilDisconnect'),
+    }
+    : null);
+  if (typeof expiry === 'string') {
+    throw new UploadError(expiry, 400);
+  }
+
+  // One password protects every file of the upload
+  const password = formData.get('password') || null;
+  if (password !== null && !isValidPassword(password)) {
+    throw new UploadError('Invalid password', 400);
+  }
+  const passwordHash = password === null ? null : await hashPassword(password);
+
+  // The allow/deny lists also apply to what the files really are. Every file is
+  // checked before the first one is stored, so a rejected upload stores nothing.
+  const contents = [];
+  for (const file of files) {
+    const data = Buffer.from(await file.arrayBuffer());
+    const types = resolveContentType(data, file.type);
+    checkFile(uploadLimits, { name: file.name, size: file.size, type: types.type });
+    contents.push({ data, types });
+  }
+
+  const uploadedFiles = [];
+
+  for (const [index, file] of files.entries()) {
+    const { data, types } = contents[index];
+    const uploadedAt = Date.now();
+
+    const storedFile: StoredFile = {
+      id: createFileId(),
+      roomId,
+      ownerId,
+      kind: 'file',
+      language: null,
+      name: file.name,
+      path: paths[index]!,
+      size: file.size,
+      ...types,
+      hasThumbnail: false,
+      encryptedMeta: null,
+      passwordHash,
+      data,
+      uploadedAt,
+      ...applyExpiryPolicy(expiry, uploadedAt),
+      device: getDevice(request),
+    };
+
+    await fileStore.addFile(storedFile, getClientIp(request));
+    uploadedFiles.push(toFileMetadata(storedFile, ownerId));
+  }
+
+  return uploadedFiles;
+}
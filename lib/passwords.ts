@@ -0,0 +1,41 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// Passwords of protected files and rooms are only stored as scrypt hashes.
+// scrypt is deliberately slow (tens of milliseconds per attempt), so guessing
+// a password through the unlock endpoints is expensive.
+
+export const MAX_PASSWORD_LENGTH = 256;
+
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 32;
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N: cost, r: blockSize, p: parallelization }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export function isValidPassword(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_PASSWORD_LENGTH;
+}
+
+// "scrypt$N$r$p$salt$hash", so the parameters can be raised later without breaking old hashes
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+  const [algorithm, cost, blockSize, parallelization, salt, hash] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64url'), Number(cost), Number(blockSize), Number(parallelization));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,233 @@
+// Browser side of direct peer-to-peer transfers (the server's part is in
+// lib/signaling.ts). The receiver opens an RTCPeerConnection with a data
+// channel and sends its offer to the sender through the server; the sender
+// answers and streams the file over the channel, followed by END_OF_FILE.
+// ICE candidates are put into the SDP instead of being sent one by one: on a
+// LAN, host candidates are gathered right away, and it keeps signaling to one
+// message each way.
+//
+// If no direct connection comes up (e.g. the browsers aren't on the same
+// network), receive() fails with a PeerConnectionError, and the caller can ask
+// the sender to upload the file to the server instead (requestFallback).
+
+import type { PeerFile } from '@/lib/signaling';
+
+export const PEER_CHUNK_SIZE = 64 * 1024;
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+const ICE_GATHERING_TIMEOUT_MS = 2000;
+// Sending pauses while this much is buffered, so large files aren't read into memory at once
+const MAX_BUFFERED_AMOUNT = 4 * 1024 * 1024;
+const END_OF_FILE = 'end-of-file';
+// Same network only, so no STUN or TURN servers
+const RTC_CONFIGURATION: RTCConfiguration = { iceServers: [] };
+
+export type PeerSignal =
+  | { type: 'offer'; transferId: string; fileId: string; sdp: string }
+  | { type: 'answer'; transferId: string; sdp: string }
+  // The sender doesn't offer the file anymore
+  | { type: 'unavailable'; transferId: string }
+  // The receiver couldn't connect and asks for the file on the server
+  | { type: 'fallback'; fileId: string };
+
+// Thrown when no direct connection could be made, or it broke off
+export class PeerConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PeerConnectionError';
+  }
+}
+
+export interface PeerTransferOptions {
+  peerId: string;
+  // Relays a signal to another peer through the server
+  sendSignal: (to: string, signal: PeerSignal) => Promise<void>;
+  // The file behind one of this page's offers
+  getOfferedFile: (fileId: string) => Blob | undefined;
+  // A receiver couldn't connect and asks this page to upload the file instead
+  onFallbackRequest: (fileId: string) => void;
+}
+
+export function createPeerId() {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+// Signals come from other browsers, so they're checked like any other input
+function isPeerSignal(value: unknown): value is PeerSignal {
+  const signal = value as Partial<Record<string, unknown>> | null;
+  switch (signal?.type) {
+    case 'offer':
+      return typeof signal.transferId === 'string' && typeof signal.fileId === 'string' && typeof signal.sdp === 'string';
+    case 'answer':
+      return typeof signal.transferId === 'string' && typeof signal.sdp === 'string';
+    case 'unavailable':
+      return typeof signal.transferId === 'string';
+    case 'fallback':
+      return typeof signal.fileId === 'string';
+    default:
+      return false;
+  }
+}
+
+function waitForIceGathering(connection: RTCPeerConnection) {
+  return new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timeout);
+      connection.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    };
+    const check = () => {
+      if (connection.iceGatheringState === 'complete') done();
+    };
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    connection.addEventListener('icegatheringstatechange', check);
+    check();
+  });
+}
+
+async function sendFile(channel: RTCDataChannel, file: Blob) {
+  channel.bufferedAmountLowThreshold = MAX_BUFFERED_AMOUNT / 2;
+  for (let offset = 0; offset < file.size; offset += PEER_CHUNK_SIZE) {
+    if (channel.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+      await new Promise(resolve => {
+        channel.onbufferedamountlow = resolve;
+        channel.onclose = resolve;
+      });
+    }
+    if (channel.readyState !== 'open') {
+      throw new PeerConnectionError('The receiver closed the connection');
+    }
+    channel.send(await file.slice(offset, offset + PEER_CHUNK_SIZE).arrayBuffer());
+  }
+  channel.send(END_OF_FILE);
+}
+
+export class PeerTransfers {
+  // Receiving transfers by ID, so answers find their connection
+  private receiving: Map<string, { connection: RTCPeerConnection; fail: (error: Error) => void }> = new Map();
+  private serving: Set<RTCPeerConnection> = new Set();
+
+  constructor(private options: PeerTransferOptions) {}
+
+  handleSignal(from: string, signal: unknown) {
+    if (!isPeerSignal(signal)) return;
+    switch (signal.type) {
+      case 'offer':
+        this.serve(from, signal).catch(error => console.error('Error sending file to peer:', error));
+        break;
+      case 'answer':
+        this.receiving.get(signal.transferId)?.connection
+          .setRemoteDescription({ type: 'answer', sdp: signal.sdp })
+          .catch(error => this.receiving.get(signal.transferId)?.fail(error));
+        break;
+      case 'unavailable':
+        this.receiving.get(signal.transferId)?.fail(new Error('The sender no longer offers this file'));
+        break;
+      case 'fallback':
+        this.options.onFallbackRequest(signal.fileId);
+        break;
+    }
+  }
+
+  // Downloads an offered file straight from the sender's browser
+  receive(file: PeerFile, onProgress?: (loaded: number) => void) {
+    const transferId = createPeerId();
+    const connection = new RTCPeerConnection(RTC_CONFIGURATION);
+    const channel = connection.createDataChannel('file', { ordered: true });
+    channel.binaryType = 'arraybuffer';
+
+    return new Promise<Blob>((resolve, reject) => {
+      const chunks: ArrayBuffer[] = [];
+      let received = 0;
+      let finished = false;
+
+      const finish = (error?: Error) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeout);
+        this.receiving.delete(transferId);
+        connection.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(new Blob(chunks, { type: file.type }));
+        }
+      };
+
+      const timeout = setTimeout(() => finish(new PeerConnectionError('Could not connect to the sender directly')), CONNECT_TIMEOUT_MS);
+      channel.onopen = () => clearTimeout(timeout);
+      channel.onmessage = event => {
+        if (event.data === END_OF_FILE) {
+          finish(received === file.size ? undefined : new PeerConnectionError('The file arrived incomplete'));
+          return;
+        }
+        chunks.push(event.data);
+        received += (event.data as ArrayBuffer).byteLength;
+        onProgress?.(received);
+      };
+      channel.onclose = () => finish(new PeerConnectionError('The connection to the sender was lost'));
+      connection.onconnectionstatechange = () => {
+        if (connection.connectionState === 'failed') {
+          finish(new PeerConnectionError('Could not connect to the sender directly'));
+        }
+      };
+      this.receiving.set(transferId, { connection, fail: finish });
+
+      (async () => {
+        await connection.setLocalDescription(await connection.createOffer());
+        await waitForIceGathering(connection);
+        await this.options.sendSignal(file.peerId, { type: 'offer', transferId, fileId: file.id, sdp: connection.localDescription!.sdp });
+      })().catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+    });
+  }
+
+  // Asks the sender to upload the file to the server, after receive() couldn't connect
+  requestFallback(file: PeerFile) {
+    return this.options.sendSignal(file.peerId, { type: 'fallback', fileId: file.id });
+  }
+
+  close() {
+    this.receiving.forEach(({ fail }) => fail(new PeerConnectionError('Transfer cancelled')));
+    this.serving.forEach(connection => connection.close());
+    this.serving.clear();
+  }
+
+  private async serve(from: string, { transferId, fileId, sdp }: Extract<PeerSignal, { type: 'offer' }>) {
+    const file = this.options.getOfferedFile(fileId);
+    if (!file) {
+      await this.options.sendSignal(from, { type: 'unavailable', transferId });
+      return;
+    }
+
+    const connection = new RTCPeerConnection(RTC_CONFIGURATION);
+    this.serving.add(connection);
+    const close = () => {
+      clearTimeout(timeout);
+      this.serving.delete(connection);
+      connection.close();
+    };
+    // The receiver closes the connection once it has everything
+    const timeout = setTimeout(close, CONNECT_TIMEOUT_MS);
+    connection.onconnectionstatechange = () => {
+      if (['failed', 'disconnected', 'closed'].includes(connection.connectionState)) close();
+    };
+    connection.ondatachannel = ({ channel }) => {
+      channel.onopen = () => {
+        clearTimeout(timeout);
+        sendFile(channel, file).catch(error => {
+          console.error('Error sending file to peer:', error);
+          close();
+        });
+      };
+    };
+
+    try {
+      await connection.setRemoteDescription({ type: 'offer', sdp });
+      await connection.setLocalDescription(await connection.createAnswer());
+      await waitForIceGathering(connection);
+      await this.options.sendSignal(from, { type: 'answer', transferId, sdp: connection.localDescription!.sdp });
+    } catch (error) {
+      close();
+      throw error;
+    }
+  }
+}
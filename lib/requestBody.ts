@@ -0,0 +1,28 @@
+// Reading request bodies that have a size limit, without ever buffering more
+// than the limit: a larger Content-Length is rejected right away, and a body
+// without one (or with a wrong one) is counted as it arrives.
+
+// The body as a Buffer, or null if it's larger than `maxBytes`
+export async function readLimitedBody(request: Request, maxBytes: number): Promise<Buffer | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
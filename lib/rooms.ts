@@ -0,0 +1,46 @@
+// Rooms are isolated share spaces. Every file belongs to exactly one room and
+// clients only see (and get change events for) the room they're in.
+// This module is shared by the API routes and the page, so keep it free of Node APIs.
+
+// The room served at `/`, for everyone who doesn't pick one
+export const DEFAULT_ROOM_ID = 'public';
+
+const ROOM_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/;
+
+const ROOM_ADJECTIVES = ['amber', 'brave', 'calm', 'dusty', 'eager', 'fuzzy', 'gentle', 'happy', 'icy', 'jolly', 'lucky', 'mellow', 'quiet', 'rapid', 'sunny', 'witty'];
+const ROOM_NOUNS = ['badger', 'comet', 'falcon', 'gecko', 'harbor', 'island', 'lemur', 'maple', 'otter', 'panda', 'pebble', 'river', 'tiger', 'walrus', 'willow', 'zebra'];
+
+export function normalizeRoomId(roomId: string) {
+  return roomId.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function isValidRoomId(roomId: string) {
+  return ROOM_ID_PATTERN.test(roomId);
+}
+
+// Readable random names like "sunny-otter-42"
+export function generateRoomId() {
+  const pick = (words: string[]) => words[Math.floor(Math.random() * words.length)];
+  return `${pick(ROOM_ADJECTIVES)}-${pick(ROOM_NOUNS)}-${Math.floor(Math.random() * 90) + 10}`;
+}
+
+// Reads the `room` query parameter, falling back to the default room.
+// Returns null for a malformed room ID.
+export function getRoomId(request: Request): string | null {
+  const room = new URL(request.url).searchParams.get('room');
+  if (room === null || room === '') return DEFAULT_ROOM_ID;
+  const roomId = normalizeRoomId(room);
+  return isValidRoomId(roomId) ? roomId : null;
+}
+
+// Page URL for a room
+export function roomPath(roomId: string) {
+  return roomId === DEFAULT_ROOM_ID ? '/' : `/r/${roomId}`;
+}
+
+// Share page URL for a single file (see app/f/[id]), optionally with a signed link token
+export function sharePath(fileId: string, roomId: string, token?: string) {
+  const query = new URLSearchParams({ room: roomId });
+  if (token) query.set('token', token);
+  return `/f/${encodeURIComponent(fileId)}?${query}`;
+}
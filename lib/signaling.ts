@@ -0,0 +1,234 @@
+import { createFileId } from '@/lib/fileStore';
+import type { DeviceInfo, DeviceType } from '@/lib/devices';
+
+// Signaling relay for direct peer-to-peer transfers (see lib/peerTransfer.ts).
+// The server never sees the files: a browser offers a file to its room, and
+// when someone downloads it, the two browsers exchange WebRTC offers, answers
+// and ICE candidates through here, then send the bytes over an RTCDataChannel.
+//
+// Every open page is a peer with a random ID (`?peer=` on the push channel).
+// Messages for a peer are delivered over its SSE connection, or kept in its
+// mailbox until the next poll or reconnect. Offered files disappear once their
+// peer has been gone for PEER_TIMEOUT_MS.
+//
+// Peers double as the room's presence list ("who's here"): everyone in the
+// room gets the list of connected devices whenever someone joins, leaves or
+// renames their device (see lib/devices.ts).
+
+export const MAX_SIGNAL_LENGTH = 16 * 1024;
+const MAX_MAILBOX_SIZE = 200;
+const PEER_TIMEOUT_MS = 15 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 1000;
+const PEER_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// A file offered for direct transfer, as shown to the room
+export interface PeerFile {
+  id: string;
+  peerId: string;
+  name: string;
+  size: number;
+  type: string;
+  // Set in end-to-end encrypted rooms, where name and type are placeholders (see lib/e2e.ts)
+  encryptedMeta: string | null;
+  offeredAt: number;
+}
+
+// A device connected to the room. Tabs of the same browser share an owner
+// and show up as one device.
+export interface PresentDevice {
+  peerIds: string[];
+  name: string | null;
+  type: DeviceType;
+  since: number;
+}
+
+export type PeerEvent =
+  | { type: 'presence'; devices: PresentDevice[] }
+  | { type: 'signal'; from: string; data: unknown }
+  | { type: 'peer-file-added'; file: PeerFile }
+  | { type: 'peer-file-removed'; fileId: string };
+
+export class SignalingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SignalingError';
+  }
+}
+
+interface Peer {
+  roomId: string;
+  ownerId: string;
+  device: DeviceInfo;
+  connectedAt: number;
+  lastSeen: number;
+  // Set while the peer has a push connection open
+  deliver: ((event: PeerEvent) => void) | null;
+  mailbox: PeerEvent[];
+  files: Map<string, PeerFile>;
+}
+
+export function isValidPeerId(value: unknown): value is string {
+  return typeof value === 'string' && PEER_ID_PATTERN.test(value);
+}
+
+class SignalingHub {
+  private peers: Map<string, Peer> = new Map();
+
+  constructor() {
+    const sweeper = setInterval(() => this.sweepPeers(), SWEEP_INTERVAL_MS);
+    // Don't keep the process alive just for the sweeper
+    sweeper.unref?.();
+  }
+
+  // Registers the peer's push connection; returns a function that closes it.
+  // Messages that arrived while the peer was away are delivered right away.
+  connect(roomId: string, peerId: string, ownerId: string, device: DeviceInfo, deliver: (event: PeerEvent) => void) {
+    const peer = this.touch(roomId, peerId, ownerId, device);
+    peer.deliver = deliver;
+    peer.mailbox.splice(0).forEach(deliver);
+    return () => {
+      if (peer.deliver === deliver) {
+        peer.deliver = null;
+        peer.lastSeen = Date.now();
+      }
+    };
+  }
+
+  // For the polling fallback: keeps the peer alive and returns its pending messages
+  poll(roomId: string, peerId: string, ownerId: string, device: DeviceInfo) {
+    return this.touch(roomId, peerId, ownerId, device).mailbox.splice(0);
+  }
+
+  // Relays a message from one peer to another in the same room
+  send(roomId: string, from: string, ownerId: string, to: string, data: unknown) {
+    this.getOwnPeer(roomId, from, ownerId);
+    const target = this.peers.get(to);
+    if (!target || target.roomId !== roomId) {
+      throw new SignalingError('Peer not found', 404);
+    }
+    this.deliver(target, { type: 'signal', from, data });
+  }
+
+  getDevices(roomId: string): PresentDevice[] {
+    const devices = new Map<string, PresentDevice>();
+    this.peers.forEach((peer, peerId) => {
+      if (peer.roomId !== roomId) return;
+      const device = devices.get(peer.ownerId);
+      if (device) {
+        device.peerIds.push(peerId);
+        device.since = Math.min(device.since, peer.connectedAt);
+      } else {
+        devices.set(peer.ownerId, { peerIds: [peerId], ...peer.device, since: peer.connectedAt });
+      }
+    });
+    return [...devices.values()].sort((a, b) => a.since - b.since);
+  }
+
+  // The owner renamed their device: updates all of its pages, in every room
+  updateDevice(ownerId: string, device: DeviceInfo) {
+    const rooms = new Set<string>();
+    this.peers.forEach(peer => {
+      if (peer.ownerId !== ownerId) return;
+      peer.device = device;
+      rooms.add(peer.roomId);
+    });
+    rooms.forEach(roomId => this.broadcastPresence(roomId));
+  }
+
+  getFiles(roomId: string): PeerFile[] {
+    return [...this.peers.values()]
+      .filter(peer => peer.roomId === roomId)
+      .flatMap(peer => [...peer.files.values()]);
+  }
+
+  offerFile(
+    roomId: string,
+    peerId: string,
+    ownerId: string,
+    { name, size, type, encryptedMeta }: Pick<PeerFile, 'name' | 'size' | 'type' | 'encryptedMeta'>
+  ) {
+    const peer = this.getOwnPeer(roomId, peerId, ownerId);
+    const file: PeerFile = { id: createFileId(), peerId, name, size, type, encryptedMeta, offeredAt: Date.now() };
+    peer.files.set(file.id, file);
+    this.broadcast(roomId, { type: 'peer-file-added', file });
+    return file;
+  }
+
+  // Only the peer's owner may withdraw its files
+  withdrawFile(roomId: string, fileId: string, ownerId: string) {
+    for (const peer of this.peers.values()) {
+      if (peer.roomId !== roomId || !peer.files.has(fileId)) continue;
+      if (peer.ownerId !== ownerId) {
+        throw new SignalingError('Only the sender can withdraw this file', 403);
+      }
+      peer.files.delete(fileId);
+      this.broadcast(roomId, { type: 'peer-file-removed', fileId });
+    }
+  }
+
+  // Peer IDs are picked by the browser, so the first owner to use one keeps it
+  private touch(roomId: string, peerId: string, ownerId: string, device: DeviceInfo) {
+    const now = Date.now();
+    let peer = this.peers.get(peerId);
+    if (peer && (peer.roomId !== roomId || peer.ownerId !== ownerId)) {
+      throw new SignalingError('Peer ID is already in use', 409);
+    }
+    if (!peer) {
+      peer = { roomId, ownerId, device, connectedAt: now, lastSeen: now, deliver: null, mailbox: [], files: new Map() };
+      this.peers.set(peerId, peer);
+      this.broadcastPresence(roomId);
+    } else if (peer.device.name !== device.name || peer.device.type !== device.type) {
+      peer.device = device;
+      this.broadcastPresence(roomId);
+    }
+    peer.lastSeen = now;
+    return peer;
+  }
+
+  private getOwnPeer(roomId: string, peerId: string, ownerId: string) {
+    const peer = this.peers.get(peerId);
+    if (!peer || peer.roomId !== roomId || peer.ownerId !== ownerId) {
+      throw new SignalingError('Unknown peer - connect to the room first', 409);
+    }
+    return peer;
+  }
+
+  private deliver(peer: Peer, event: PeerEvent) {
+    if (peer.deliver) {
+      peer.deliver(event);
+      return;
+    }
+    peer.mailbox.push(event);
+    if (peer.mailbox.length > MAX_MAILBOX_SIZE) {
+      peer.mailbox.shift();
+    }
+  }
+
+  private broadcast(roomId: string, event: PeerEvent) {
+    this.peers.forEach(peer => {
+      if (peer.roomId === roomId) this.deliver(peer, event);
+    });
+  }
+
+  private broadcastPresence(roomId: string) {
+    this.broadcast(roomId, { type: 'presence', devices: this.getDevices(roomId) });
+  }
+
+  private sweepPeers() {
+    const now = Date.now();
+    const left = new Set<string>();
+    for (const [peerId, peer] of this.peers) {
+      if (peer.deliver || now - peer.lastSeen <= PEER_TIMEOUT_MS) continue;
+      this.peers.delete(peerId);
+      peer.files.forEach(file => this.broadcast(peer.roomId, { type: 'peer-file-removed', fileId: file.id }));
+      left.add(peer.roomId);
+    }
+    left.forEach(roomId => this.broadcastPresence(roomId));
+  }
+}
+
+// Singleton instance, kept on globalThis so dev hot reloads don't create a second hub
+const globalForSignaling = globalThis as unknown as { signalingHub?: SignalingHub };
+
+export const signalingHub = globalForSignaling.signalingHub ?? new SignalingHub();
+globalForSignaling.signalingHub = signalingHub;
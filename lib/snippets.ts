@@ -0,0 +1,63 @@
+// Text snippets: short text, URLs or code posted directly instead of as a file.
+// They're stored like any other file (as text/plain) with kind 'text', so
+// downloads, archives and expiry work the same way.
+// Shared by the API routes and the page, so keep it free of Node APIs.
+
+export type ItemKind = 'file' | 'text';
+
+export const MAX_SNIPPET_BYTES = 1024 * 1024;
+const MAX_TITLE_LENGTH = 100;
+
+// Languages offered for highlighting, with the extension used for the file name
+export const SNIPPET_LANGUAGES: { id: string; label: string; extension: string }[] = [
+  { id: 'plaintext', label: 'Plain text', extension: 'txt' },
+  { id: 'javascript', label: 'JavaScript', extension: 'js' },
+  { id: 'typescript', label: 'TypeScript', extension: 'ts' },
+  { id: 'python', label: 'Python', extension: 'py' },
+  { id: 'json', label: 'JSON', extension: 'json' },
+  { id: 'bash', label: 'Shell', extension: 'sh' },
+  { id: 'xml', label: 'HTML / XML', extension: 'html' },
+  { id: 'css', label: 'CSS', extension: 'css' },
+  { id: 'sql', label: 'SQL', extension: 'sql' },
+  { id: 'java', label: 'Java', extension: 'java' },
+  { id: 'kotlin', label: 'Kotlin', extension: 'kt' },
+  { id: 'c', label: 'C', extension: 'c' },
+  { id: 'cpp', label: 'C++', extension: 'cpp' },
+  { id: 'csharp', label: 'C#', extension: 'cs' },
+  { id: 'go', label: 'Go', extension: 'go' },
+  { id: 'rust', label: 'Rust', extension: 'rs' },
+  { id: 'yaml', label: 'YAML', extension: 'yaml' },
+  { id: 'markdown', label: 'Markdown', extension: 'md' },
+];
+
+export interface SnippetInput {
+  text: string;
+  // null means "detect it when rendering"
+  language: string | null;
+  name: string;
+}
+
+// Validates a snippet from a request body. Returns an error message for bad input.
+export function parseSnippet(input: { text?: unknown; title?: unknown; language?: unknown } | null): SnippetInput | string {
+  const text = input?.text;
+  if (typeof text !== 'string' || text.trim() === '') {
+    return 'text is required';
+  }
+
+  const language = input?.language === undefined || input.language === null || input.language === ''
+    ? null
+    : SNIPPET_LANGUAGES.find(candidate => candidate.id === input.language);
+  if (language === undefined) {
+    return `Unknown language "${input?.language}"`;
+  }
+
+  if (input?.title !== undefined && typeof input.title !== 'string') {
+    return 'title must be a string';
+  }
+  const title = (input?.title ?? '').replace(/[/\\\u0000-\u001f]/g, ' ').trim().slice(0, MAX_TITLE_LENGTH);
+  const base = title || `snippet-${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}`;
+  const extension = language?.extension ?? 'txt';
+  const name = /\.\w+$/.test(base) ? base : `${base}.${extension}`;
+
+  return { text, language: language?.id ?? null, name };
+}
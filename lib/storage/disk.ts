@@ -0,0 +1,203 @@
+import { randomBytes } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StoredFile } from '@/lib/fileStore';
+import type { ByteRange } from '@/lib/download';
+import type { StorageBackend, StoredFileInfo, StoredRoom } from './types';
+
+// IDs come from request URLs, so never let them escape the storage directory
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+function isMissing(error: unknown) {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+// Stores each file as `<id>.bin` with its metadata in a `<id>.json` sidecar
+// (and its thumbnail, if any, in `<id>.thumb`). Room settings go in `rooms/<id>.json`.
+export class DiskStorageBackend implements StorageBackend {
+  readonly name = 'disk';
+  readonly persistent = true;
+  private ready: Promise<void>;
+
+  constructor(private directory: string) {
+    this.ready = fs.mkdir(this.roomsDirectory(), { recursive: true }).then(() => undefined);
+  }
+
+  private roomsDirectory() {
+    return path.join(this.directory, 'rooms');
+  }
+
+  private dataPath(id: string) {
+    return path.join(this.directory, `${id}.bin`);
+  }
+
+  private metaPath(id: string) {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private thumbnailPath(id: string) {
+    return path.join(this.directory, `${id}.thumb`);
+  }
+
+  // Written to a temporary file and renamed into place, so a crash mid-write
+  // never leaves a truncated sidecar behind
+  private async writeJson(filePath: string, value: unknown) {
+    const tempPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(value));
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async put(file: StoredFile) {
+    if (!SAFE_ID.test(file.id)) {
+      throw new Error(`Invalid file id: ${file.id}`);
+    }
+    await this.ready;
+
+    const { data, ...info } = file;
+    await fs.writeFile(this.dataPath(file.id), data);
+    // Sidecar is written last, so a half-written file never shows up in list()
+    await this.writeJson(this.metaPath(info.id), info);
+  }
+
+  async putStream(info: StoredFileInfo, data: Readable) {
+    if (!SAFE_ID.test(info.id)) {
+      throw new Error(`Invalid file id: ${info.id}`);
+    }
+    await this.ready;
+
+    try {
+      await pipeline(data, createWriteStream(this.dataPath(info.id)));
+    } catch (error) {
+      await fs.rm(this.dataPath(info.id), { force: true });
+      throw error;
+    }
+    await this.writeJson(this.metaPath(info.id), info);
+  }
+
+  async get(id: string) {
+    const info = await this.getInfo(id);
+    if (!info) return undefined;
+
+    try {
+      const data = await fs.readFile(this.dataPath(id));
+      return { ...info, data };
+    } catch (error) {
+      if (isMissing(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async getStream(id: string, range?: ByteRange) {
+    if (!(await this.getInfo(id))) return undefined;
+
+    try {
+      // Opened first, so a missing file is noticed here rather than by whoever reads the stream
+      const handle = await fs.open(this.dataPath(id));
+      return handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+    } catch (error) {
+      if (isMissing(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async getInfo(id: string) {
+    if (!SAFE_ID.test(id)) return undefined;
+    await this.ready;
+
+    try {
+      return JSON.parse(await fs.readFile(this.metaPath(id), 'utf8')) as StoredFileInfo;
+    } catch (error) {
+      if (isMissing(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async listAll() {
+    await this.ready;
+    const entries = await fs.readdir(this.directory);
+    const infos = await Promise.all(
+      entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => this.getInfo(entry.slice(0, -'.json'.length)))
+    );
+    return infos.filter((info): info is StoredFileInfo => info !== undefined);
+  }
+
+  async list(roomId: string) {
+    const infos = await this.listAll();
+    return infos
+      .filter(info => info.roomId === roomId)
+      .sort((a, b) => a.uploadedAt - b.uploadedAt);
+  }
+
+  async update(id: string, changes: Partial<Omit<StoredFileInfo, 'id'>>) {
+    const info = await this.getInfo(id);
+    if (!info) return undefined;
+    const updated = { ...info, ...changes };
+    await this.writeJson(this.metaPath(id), updated);
+    return updated;
+  }
+
+  async delete(id: string) {
+    if (!SAFE_ID.test(id)) return false;
+    await this.ready;
+
+    try {
+      await fs.unlink(this.metaPath(id));
+    } catch (error) {
+      if (isMissing(error)) return false;
+      throw error;
+    }
+    await fs.rm(this.dataPath(id), { force: true });
+    await fs.rm(this.thumbnailPath(id), { force: true });
+    return true;
+  }
+
+  async putThumbnail(id: string, data: Buffer) {
+    // The file may have been deleted while the thumbnail was being made
+    if (!(await this.getInfo(id))) return;
+    await fs.writeFile(this.thumbnailPath(id), data);
+  }
+
+  async getThumbnail(id: string) {
+    if (!SAFE_ID.test(id)) return undefined;
+    await this.ready;
+
+    try {
+      return await fs.readFile(this.thumbnailPath(id));
+    } catch (error) {
+      if (isMissing(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async clear(roomId: string) {
+    const infos = await this.list(roomId);
+    await Promise.all(infos.map(info => this.delete(info.id)));
+  }
+
+  async putRoom(room: StoredRoom) {
+    if (!SAFE_ID.test(room.id)) {
+      throw new Error(`Invalid room id: ${room.id}`);
+    }
+    await this.ready;
+    await this.writeJson(path.join(this.roomsDirectory(), `${room.id}.json`), room);
+  }
+
+  async listRooms() {
+    await this.ready;
+    const entries = await fs.readdir(this.roomsDirectory());
+    return Promise.all(
+      entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(async entry => JSON.parse(await fs.readFile(path.join(this.roomsDirectory(), entry), 'utf8')) as StoredRoom)
+    );
+  }
+}
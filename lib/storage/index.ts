@@ -0,0 +1,28 @@
+import os from 'os';
+import path from 'path';
+import type { StorageBackend } from './types';
+import { MemoryStorageBackend } from './memory';
+import { DiskStorageBackend } from './disk';
+import { SqliteStorageBackend } from './sqlite';
+
+export type { StorageBackend, StorageBackendName, StoredFileInfo, StoredRoom } from './types';
+export { withoutData } from './types';
+
+// Picks the backend from the environment:
+//   STORAGE_BACKEND=memory (default) | disk | sqlite
+//   STORAGE_DIR    - directory for the disk backend (default: <tmpdir>/au-share-files)
+//   SQLITE_PATH    - database file for the sqlite backend (default: <tmpdir>/au-share.db)
+export function createStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'memory').toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryStorageBackend();
+    case 'disk':
+      return new DiskStorageBackend(process.env.STORAGE_DIR || path.join(os.tmpdir(), 'au-share-files'));
+    case 'sqlite':
+      return new SqliteStorageBackend(process.env.SQLITE_PATH || path.join(os.tmpdir(), 'au-share.db'));
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected memory, disk or sqlite)`);
+  }
+}
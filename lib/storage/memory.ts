@@ -0,0 +1,89 @@
+import { Readable } from 'stream';
+import type { StoredFile } from '@/lib/fileStore';
+import type { ByteRange } from '@/lib/download';
+import { withoutData, StorageBackend, StoredFileInfo, StoredRoom } from './types';
+
+// Default backend - files live in process memory and are gone after a restart
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  readonly persistent = false;
+  private files: Map<string, StoredFile> = new Map();
+  private thumbnails: Map<string, Buffer> = new Map();
+  private rooms: Map<string, StoredRoom> = new Map();
+
+  async put(file: StoredFile) {
+    this.files.set(file.id, file);
+  }
+
+  // This backend holds every file in memory anyway
+  async putStream(info: StoredFileInfo, data: Readable) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of data) chunks.push(chunk);
+    this.files.set(info.id, { ...info, data: Buffer.concat(chunks) });
+  }
+
+  async get(id: string) {
+    return this.files.get(id);
+  }
+
+  async getStream(id: string, range?: ByteRange) {
+    const file = this.files.get(id);
+    if (!file) return undefined;
+    return Readable.from([range ? file.data.subarray(range.start, range.end + 1) : file.data]);
+  }
+
+  async getInfo(id: string) {
+    const file = this.files.get(id);
+    return file ? withoutData(file) : undefined;
+  }
+
+  async list(roomId: string) {
+    return Array.from(this.files.values())
+      .filter(file => file.roomId === roomId)
+      .map(withoutData);
+  }
+
+  async listAll() {
+    return Array.from(this.files.values()).map(withoutData);
+  }
+
+  async update(id: string, changes: Partial<Omit<StoredFileInfo, 'id'>>) {
+    const file = this.files.get(id);
+    if (!file) return undefined;
+    const updated = { ...file, ...changes };
+    this.files.set(id, updated);
+    return withoutData(updated);
+  }
+
+  async delete(id: string) {
+    this.thumbnails.delete(id);
+    return this.files.delete(id);
+  }
+
+  async putThumbnail(id: string, data: Buffer) {
+    if (this.files.has(id)) {
+      this.thumbnails.set(id, data);
+    }
+  }
+
+  async getThumbnail(id: string) {
+    return this.thumbnails.get(id);
+  }
+
+  async clear(roomId: string) {
+    this.files.forEach((file, id) => {
+      if (file.roomId === roomId) {
+        this.files.delete(id);
+        this.thumbnails.delete(id);
+      }
+    });
+  }
+
+  async putRoom(room: StoredRoom) {
+    this.rooms.set(room.id, room);
+  }
+
+  async listRooms() {
+    return Array.from(this.rooms.values());
+  }
+}
@@ -0,0 +1,196 @@
+import { Readable } from 'stream';
+import type Database from 'better-sqlite3';
+import type { StoredFile } from '@/lib/fileStore';
+import type { ByteRange } from '@/lib/download';
+import type { StorageBackend, StoredFileInfo, StoredRoom } from './types';
+
+// Bytes are stored in rows of this size, so files are written and read a piece at a time
+const CHUNK_SIZE = 1024 * 1024;
+
+interface FileRow {
+  meta: string;
+  data?: Buffer;
+}
+
+// Keeps metadata (as JSON) in one SQLite table and the bytes in CHUNK_SIZE rows
+// of a second one, thumbnails in a third and room settings (as JSON) in a fourth.
+// Databases from before chunks have the bytes in files.data, which is read as
+// a fallback; new files leave it empty.
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+  readonly persistent = true;
+  private db: Promise<Database.Database>;
+
+  constructor(filename: string) {
+    // better-sqlite3 is a native module - only loaded once this backend is picked
+    this.db = import('better-sqlite3').then(({ default: Database }) => {
+      const db = new Database(filename);
+      db.pragma('journal_mode = WAL');
+      // Thumbnails are removed with their file
+      db.pragma('foreign_keys = ON');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          uploaded_at INTEGER NOT NULL,
+          meta TEXT NOT NULL,
+          data BLOB NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS files_room ON files (json_extract(meta, '$.roomId'), uploaded_at);
+        CREATE TABLE IF NOT EXISTS chunks (
+          id TEXT NOT NULL,
+          idx INTEGER NOT NULL,
+          data BLOB NOT NULL,
+          PRIMARY KEY (id, idx)
+        );
+        -- Chunks are written before their file row, so they can't reference it
+        CREATE TRIGGER IF NOT EXISTS files_delete_chunks AFTER DELETE ON files BEGIN
+          DELETE FROM chunks WHERE id = old.id;
+        END;
+        CREATE TABLE IF NOT EXISTS thumbnails (
+          id TEXT PRIMARY KEY REFERENCES files (id) ON DELETE CASCADE,
+          data BLOB NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS rooms (
+          id TEXT PRIMARY KEY,
+          meta TEXT NOT NULL
+        );
+      `);
+      return db;
+    });
+  }
+
+  async put(file: StoredFile) {
+    const { data, ...info } = file;
+    await this.putStream(info, Readable.from([data]));
+  }
+
+  // The file row is written last, so a half-written file never shows up in list()
+  async putStream(info: StoredFileInfo, data: Readable) {
+    const db = await this.db;
+    const insertChunk = db.prepare('INSERT OR REPLACE INTO chunks (id, idx, data) VALUES (?, ?, ?)');
+    db.prepare('DELETE FROM chunks WHERE id = ?').run(info.id);
+    try {
+      let index = 0;
+      let pending: Buffer[] = [];
+      let pendingLength = 0;
+      for await (const chunk of data) {
+        pending.push(chunk);
+        pendingLength += chunk.length;
+        while (pendingLength >= CHUNK_SIZE) {
+          const buffer = Buffer.concat(pending);
+          insertChunk.run(info.id, index++, buffer.subarray(0, CHUNK_SIZE));
+          pending = [buffer.subarray(CHUNK_SIZE)];
+          pendingLength = buffer.length - CHUNK_SIZE;
+        }
+      }
+      if (pendingLength > 0) {
+        insertChunk.run(info.id, index, Buffer.concat(pending));
+      }
+      // Replacing a row doesn't fire the delete trigger (recursive_triggers is off)
+      db.prepare('INSERT OR REPLACE INTO files (id, uploaded_at, meta, data) VALUES (?, ?, ?, ?)')
+        .run(info.id, info.uploadedAt, JSON.stringify(info), Buffer.alloc(0));
+    } catch (error) {
+      db.prepare('DELETE FROM chunks WHERE id = ?').run(info.id);
+      throw error;
+    }
+  }
+
+  async get(id: string) {
+    const info = await this.getInfo(id);
+    const data = await this.getStream(id);
+    if (!info || !data) return undefined;
+    const chunks: Buffer[] = [];
+    for await (const chunk of data) chunks.push(chunk);
+    return { ...info, data: Buffer.concat(chunks) };
+  }
+
+  // One chunk is read at a time, as the stream is consumed
+  async getStream(id: string, range?: ByteRange) {
+    const db = await this.db;
+    const row = db.prepare('SELECT meta FROM files WHERE id = ?').get(id) as FileRow | undefined;
+    if (!row) return undefined;
+    const { size } = JSON.parse(row.meta) as StoredFileInfo;
+    const start = range?.start ?? 0;
+    const end = range?.end ?? size - 1;
+
+    const hasChunks = db.prepare('SELECT 1 FROM chunks WHERE id = ? LIMIT 1').get(id) !== undefined;
+    if (!hasChunks) {
+      const legacy = db.prepare('SELECT data FROM files WHERE id = ?').get(id) as FileRow | undefined;
+      return legacy?.data ? Readable.from([legacy.data.subarray(start, end + 1)]) : undefined;
+    }
+
+    const readChunk = db.prepare('SELECT data FROM chunks WHERE id = ? AND idx = ?');
+    async function* read() {
+      for (let index = Math.floor(start / CHUNK_SIZE); index * CHUNK_SIZE <= end; index++) {
+        const chunk = readChunk.get(id, index) as { data: Buffer } | undefined;
+        // Deleted while being read
+        if (!chunk) throw new Error(`File ${id} is gone`);
+        const offset = index * CHUNK_SIZE;
+        yield chunk.data.subarray(Math.max(start - offset, 0), end - offset + 1);
+      }
+    }
+    return Readable.from(read());
+  }
+
+  async getInfo(id: string) {
+    const db = await this.db;
+    const row = db.prepare('SELECT meta FROM files WHERE id = ?').get(id) as FileRow | undefined;
+    return row ? (JSON.parse(row.meta) as StoredFileInfo) : undefined;
+  }
+
+  async list(roomId: string) {
+    const db = await this.db;
+    const rows = db
+      .prepare("SELECT meta FROM files WHERE json_extract(meta, '$.roomId') = ? ORDER BY uploaded_at")
+      .all(roomId) as FileRow[];
+    return rows.map(row => JSON.parse(row.meta) as StoredFileInfo);
+  }
+
+  async listAll() {
+    const db = await this.db;
+    const rows = db.prepare('SELECT meta FROM files ORDER BY uploaded_at').all() as FileRow[];
+    return rows.map(row => JSON.parse(row.meta) as StoredFileInfo);
+  }
+
+  async update(id: string, changes: Partial<Omit<StoredFileInfo, 'id'>>) {
+    const db = await this.db;
+    const info = await this.getInfo(id);
+    if (!info) return undefined;
+    const updated = { ...info, ...changes };
+    db.prepare('UPDATE files SET meta = ? WHERE id = ?').run(JSON.stringify(updated), id);
+    return updated;
+  }
+
+  async delete(id: string) {
+    const db = await this.db;
+    return db.prepare('DELETE FROM files WHERE id = ?').run(id).changes > 0;
+  }
+
+  async putThumbnail(id: string, data: Buffer) {
+    const db = await this.db;
+    db.prepare('INSERT OR REPLACE INTO thumbnails (id, data) SELECT id, ? FROM files WHERE id = ?')
+      .run(data, id);
+  }
+
+  async getThumbnail(id: string) {
+    const db = await this.db;
+    const row = db.prepare('SELECT data FROM thumbnails WHERE id = ?').get(id) as { data: Buffer } | undefined;
+    return row?.data;
+  }
+
+  async clear(roomId: string) {
+    const db = await this.db;
+    db.prepare("DELETE FROM files WHERE json_extract(meta, '$.roomId') = ?").run(roomId);
+  }
+
+  async putRoom(room: StoredRoom) {
+    const db = await this.db;
+    db.prepare('INSERT OR REPLACE INTO rooms (id, meta) VALUES (?, ?)').run(room.id, JSON.stringify(room));
+  }
+
+  async listRooms() {
+    const db = await this.db;
+    const rows = db.prepare('SELECT meta FROM rooms').all() as { meta: string }[];
+    return rows.map(row => JSON.parse(row.meta) as StoredRoom);
+  }
+}
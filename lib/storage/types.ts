@@ -0,0 +1,54 @@
+import type { Readable } from 'stream';
+import type { StoredFile } from '@/lib/fileStore';
+import type { ByteRange } from '@/lib/download';
+
+// Everything about a stored file except its bytes
+export type StoredFileInfo = Omit<StoredFile, 'data'>;
+
+// What FileStore keeps about a room besides its files
+export interface StoredRoom {
+  id: string;
+  adminOwnerId: string | null;
+  passwordHash: string | null;
+  // Last heartbeat of each owner, by owner ID
+  ownerLastSeen: Record<string, number>;
+}
+
+export function withoutData(file: StoredFile): StoredFileInfo {
+  const info: StoredFileInfo & Partial<Pick<StoredFile, 'data'>> = { ...file };
+  delete info.data;
+  return info;
+}
+
+export type StorageBackendName = 'memory' | 'disk' | 'sqlite';
+
+// Where FileStore keeps file bytes and metadata. Implementations only deal
+// with persistence - change notifications and session handling stay in FileStore.
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  // Whether stored files survive a server restart
+  readonly persistent: boolean;
+
+  put(file: StoredFile): Promise<void>;
+  // Same as put, with the bytes read from a stream - for files too large to hold in memory
+  putStream(info: StoredFileInfo, data: Readable): Promise<void>;
+  get(id: string): Promise<StoredFile | undefined>;
+  // The bytes of a file, or just `range` of them, without reading the whole file first
+  getStream(id: string, range?: ByteRange): Promise<Readable | undefined>;
+  getInfo(id: string): Promise<StoredFileInfo | undefined>;
+  // Files in a room, oldest first
+  list(roomId: string): Promise<StoredFileInfo[]>;
+  // Files in every room (used by the expiry sweeper)
+  listAll(): Promise<StoredFileInfo[]>;
+  // Changes metadata of a stored file, returning the updated metadata
+  update(id: string, changes: Partial<Omit<StoredFileInfo, 'id'>>): Promise<StoredFileInfo | undefined>;
+  delete(id: string): Promise<boolean>;
+  // Small preview image of a file (see lib/thumbnails.ts), deleted along with the file
+  putThumbnail(id: string, data: Buffer): Promise<void>;
+  getThumbnail(id: string): Promise<Buffer | undefined>;
+  // Removes every file in a room
+  clear(roomId: string): Promise<void>;
+  // Room admins, passwords and heartbeats, kept as long as the files they protect
+  putRoom(room: StoredRoom): Promise<void>;
+  listRooms(): Promise<StoredRoom[]>;
+}
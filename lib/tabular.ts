@@ -0,0 +1,96 @@
+// Turns CSV/TSV text and parsed JSON into rows and columns for table previews.
+
+export interface Table {
+  columns: string[];
+  rows: string[][];
+  // Rows left out because of `maxRows`
+  truncatedRows: number;
+}
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and "" for a quote
+export function parseDelimited(text: string, delimiter: string, maxRows: number): Table {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let truncatedRows = 0;
+
+  const endRecord = () => {
+    record.push(field);
+    field = '';
+    // Skip blank lines
+    if (record.length > 1 || record[0] !== '') {
+      if (records.length <= maxRows) records.push(record);
+      else truncatedRows++;
+    }
+    record = [];
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  const [columns = [], ...rows] = records;
+  return { columns, rows, truncatedRows };
+}
+
+// Tab separated when the first line has more tabs than commas
+export function guessDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count('\t') > count(',')) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+}
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Arrays of objects (or of arrays) become a table; anything else returns null
+export function jsonToTable(value: unknown, maxRows: number): Table | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const shown = value.slice(0, maxRows);
+  const truncatedRows = value.length - shown.length;
+
+  if (shown.every(item => Array.isArray(item))) {
+    const width = Math.max(...shown.map(item => (item as unknown[]).length));
+    return {
+      columns: Array.from({ length: width }, (_, index) => String(index + 1)),
+      rows: shown.map(item => Array.from({ length: width }, (_, index) => formatCell((item as unknown[])[index]))),
+      truncatedRows,
+    };
+  }
+
+  if (shown.every(item => item !== null && typeof item === 'object')) {
+    const columns = Array.from(new Set(shown.flatMap(item => Object.keys(item as object))));
+    return {
+      columns,
+      rows: shown.map(item => columns.map(column => formatCell((item as Record<string, unknown>)[column]))),
+      truncatedRows,
+    };
+  }
+
+  return null;
+}
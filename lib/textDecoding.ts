@@ -0,0 +1,104 @@
+// Decodes the bytes of uploaded text files for previews. Files carry no
+// charset, so it's detected: a BOM wins, then UTF-16 if every other byte is
+// zero, then UTF-8 if the bytes are valid UTF-8, and windows-1252 (the
+// superset of Latin-1 browsers use for "latin1") otherwise.
+// Used by the page, so keep it free of Node APIs.
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+}
+
+// Types besides text/* whose content is text
+const TEXT_TYPES = new Set([
+  'application/json',
+  'application/ld+json',
+  'application/geo+json',
+  'application/xml',
+  'application/javascript',
+  'application/x-javascript',
+  'application/x-sh',
+  'application/x-yaml',
+  'application/yaml',
+  'application/toml',
+  'application/sql',
+  'application/x-subrip',
+  'image/svg+xml',
+]);
+
+// Extensions of text formats that are often uploaded as application/octet-stream
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'text', 'log', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'ndjson', 'xml', 'yml', 'yaml',
+  'toml', 'ini', 'cfg', 'conf', 'config', 'env', 'properties', 'srt', 'vtt', 'sub', 'tex', 'rst', 'adoc',
+  'nfo', 'diff', 'patch', 'gitignore', 'dockerfile', 'makefile', 'gradle', 'sql', 'sh', 'bash', 'zsh',
+  'bat', 'ps1', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'kts',
+  'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'php', 'swift', 'dart', 'scala', 'lua', 'pl', 'r', 'css', 'scss',
+  'less', 'html', 'htm', 'vue', 'svelte',
+]);
+
+export function isTextFile(file: { name: string; type: string }) {
+  if (file.type.startsWith('text/') || TEXT_TYPES.has(file.type)) return true;
+  // Dotfiles like ".env" count as their own extension
+  const extension = /\.([a-z0-9]+)$/i.exec(file.name)?.[1].toLowerCase();
+  return extension !== undefined && TEXT_EXTENSIONS.has(extension);
+}
+
+function bomEncoding(bytes: Uint8Array): [TextEncodingName, number] | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return ['utf-8', 3];
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return ['utf-16le', 2];
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return ['utf-16be', 2];
+  return null;
+}
+
+// UTF-16 text without a BOM: mostly ASCII, so nearly every high (LE) or low (BE) byte is zero
+function guessUtf16(bytes: Uint8Array): TextEncodingName | null {
+  const sample = bytes.subarray(0, 4096);
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 2) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index + 1 < sample.length; index += 2) {
+    if (sample[index] === 0) evenZeros++;
+    if (sample[index + 1] === 0) oddZeros++;
+  }
+  if (oddZeros > pairs * 0.9 && evenZeros < pairs * 0.1) return 'utf-16le';
+  if (evenZeros > pairs * 0.9 && oddZeros < pairs * 0.1) return 'utf-16be';
+  return null;
+}
+
+// Length without a multi-byte UTF-8 sequence cut off at the end (by a partial read)
+function completeUtf8Length(bytes: Uint8Array) {
+  for (let back = 1; back <= Math.min(3, bytes.length); back++) {
+    const byte = bytes[bytes.length - back];
+    if ((byte & 0xc0) === 0x80) continue; // continuation byte, keep looking for the lead byte
+    const sequenceLength = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return sequenceLength > back ? bytes.length - back : bytes.length;
+  }
+  return bytes.length;
+}
+
+// `partial` means the bytes are only the start of the file, so the last
+// character may have been cut in half
+export function decodeText(bytes: Uint8Array, partial = false): DecodedText {
+  const bom = bomEncoding(bytes);
+  if (bom) {
+    const [encoding, length] = bom;
+    return { text: new TextDecoder(encoding).decode(bytes.subarray(length)), encoding };
+  }
+
+  // Checked first, since UTF-16 text is also valid UTF-8 (full of NUL characters)
+  const utf16 = guessUtf16(bytes);
+  if (utf16) {
+    return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16 };
+  }
+
+  const utf8Length = partial ? completeUtf8Length(bytes) : bytes.length;
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, utf8Length)), encoding: 'utf-8' };
+  } catch {
+    // Not valid UTF-8
+  }
+  return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+}
@@ -0,0 +1,66 @@
+// Thumbnails for the file grid: images are downscaled on the server with
+// sharp right after upload. Videos can't be decoded here, so the uploader's
+// browser captures a poster frame and sends it in (see PUT
+// /api/files/[id]/thumbnail); it's re-encoded the same way before storing.
+
+import type { Sharp } from 'sharp';
+
+// Longest side of a thumbnail, in pixels (cards are ~200px wide, so this covers 2x screens)
+export const THUMBNAIL_SIZE = 400;
+export const THUMBNAIL_TYPE = 'image/webp';
+// Largest poster frame accepted from a browser
+export const MAX_POSTER_BYTES = 512 * 1024;
+
+// Types sharp can decode. SVG is left out: it's rendered by the browser and
+// may reference external resources.
+const THUMBNAIL_SOURCE_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/avif',
+  'image/tiff',
+  'image/heif',
+  'image/heic',
+]);
+
+// Huge images take too long (and too much memory) to decode just for a preview
+const MAX_SOURCE_PIXELS = 100_000_000;
+// Larger images aren't even read into memory to make one
+export const MAX_THUMBNAIL_SOURCE_BYTES = 256 * 1024 * 1024;
+
+type SharpFactory = (input: Buffer, options?: { limitInputPixels?: number; animated?: boolean }) => Sharp;
+
+let sharpLoader: Promise<SharpFactory | null> | null = null;
+
+// sharp is a native module; without it, uploads still work - just without thumbnails
+function loadSharp() {
+  sharpLoader ??= import('sharp').then(
+    module => (module.default ?? module) as unknown as SharpFactory,
+    error => {
+      console.error('Thumbnails disabled, sharp is not available:', error);
+      return null;
+    }
+  );
+  return sharpLoader;
+}
+
+export function canCreateThumbnail(type: string) {
+  return THUMBNAIL_SOURCE_TYPES.has(type);
+}
+
+// Downscales an image to a WebP thumbnail. Returns null if the image can't be decoded.
+export async function createThumbnail(data: Buffer): Promise<Buffer | null> {
+  const sharp = await loadSharp();
+  if (!sharp) return null;
+
+  try {
+    return await sharp(data, { limitInputPixels: MAX_SOURCE_PIXELS })
+      .rotate() // apply the EXIF orientation, since the metadata is dropped
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,296 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { createFileId } from '@/lib/fileStore';
+import type { ExpiryPolicy } from '@/lib/expiry';
+
+// Resumable upload sessions (similar in spirit to tus):
+//   1. POST /api/uploads?room=...                  -> create a session, get uploadId + chunkSize
+//   2. PUT  /api/uploads/[uploadId]/chunks/[index] -> send each chunk (any order, retries are fine)
+//   3. GET  /api/uploads/[uploadId]                -> after an interruption, see which chunks arrived
+//   4. POST /api/uploads/[uploadId]/complete       -> verify the checksum and add the file to the store
+//
+// Chunks are staged on disk so large uploads never sit in memory while in flight.
+// The finalize checksum is the SHA-256 of the chunks' SHA-256 hex digests joined
+// in order, which clients can compute incrementally without hashing the whole file at once.
+
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+// Each open session holds its declared size against the quota until it's
+// completed or discarded, so an uploader can only have so many
+const MAX_OPEN_SESSIONS_PER_OWNER = 20;
+// Sessions that see no activity for this long are discarded
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const SAFE_ID = /^[A-Za-z0-9]+$/;
+
+export interface UploadSession {
+  id: string;
+  roomId: string;
+  ownerId: string;
+  name: string;
+  path: string;
+  size: number;
+  type: string;
+  encryptedMeta: string | null;
+  passwordHash: string | null;
+  chunkSize: number;
+  totalChunks: number;
+  expiry: ExpiryPolicy;
+  // SHA-256 hex digest of each received chunk, by index
+  chunkChecksums: Record<number, string>;
+  createdAt: number;
+}
+
+type SessionInput = Pick<
+  UploadSession,
+  'roomId' | 'ownerId' | 'name' | 'path' | 'size' | 'type' | 'encryptedMeta' | 'passwordHash' | 'expiry'
+>;
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export function sha256Hex(data: Buffer | string) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Number of bytes received contiguously from the start of the file (tus' Upload-Offset)
+export function getReceivedOffset(session: UploadSession) {
+  let offset = 0;
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (!session.chunkChecksums[index]) break;
+    offset = Math.min((index + 1) * session.chunkSize, session.size);
+  }
+  return offset;
+}
+
+export function getReceivedChunks(session: UploadSession) {
+  return Object.keys(session.chunkChecksums).map(Number).sort((a, b) => a - b);
+}
+
+export function toUploadStatus(session: UploadSession) {
+  return {
+    uploadId: session.id,
+    name: session.name,
+    path: session.path,
+    size: session.size,
+    type: session.type,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks: getReceivedChunks(session),
+    offset: getReceivedOffset(session),
+  };
+}
+
+// Bytes that open sessions will add to the store once completed
+export interface StagedUsage {
+  totalBytes: number;
+  ownerBytes: number;
+  ownerSessions: number;
+}
+
+class UploadSessionStore {
+  private ready: Promise<void>;
+  // Sessions are created one at a time, so concurrent ones can't both take the last of the quota
+  private creations: Promise<unknown> = Promise.resolve();
+  // Sessions a complete request is assembling right now
+  private completing: Set<string> = new Set();
+
+  constructor(private directory: string) {
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  private sessionDir(id: string) {
+    return path.join(this.directory, id);
+  }
+
+  private chunkPath(id: string, index: number) {
+    return path.join(this.sessionDir(id), `${index}.part`);
+  }
+
+  // Each chunk's digest lives in its own file, so concurrent chunk PUTs never overwrite each other
+  private checksumPath(id: string, index: number) {
+    return path.join(this.sessionDir(id), `${index}.sha256`);
+  }
+
+  // `checkLimits` gets what the open sessions already hold and throws if the new one doesn't fit
+  create(input: SessionInput, checkLimits: (staged: StagedUsage) => Promise<void>) {
+    const creation = this.creations.then(() => this.createNow(input, checkLimits));
+    // The next creation waits for this one, whether it worked or not
+    this.creations = creation.catch(() => undefined);
+    return creation;
+  }
+
+  private async createNow(input: SessionInput, checkLimits: (staged: StagedUsage) => Promise<void>) {
+    await this.ready;
+    await this.removeStale();
+
+    const staged = await this.getStagedUsage(input.ownerId);
+    if (staged.ownerSessions >= MAX_OPEN_SESSIONS_PER_OWNER) {
+      throw new UploadError(`At most ${MAX_OPEN_SESSIONS_PER_OWNER} uploads can be in progress at once`, 429);
+    }
+    await checkLimits(staged);
+
+    const id = createFileId();
+    const session: UploadSession = {
+      id,
+      roomId: input.roomId,
+      ownerId: input.ownerId,
+      name: input.name,
+      path: input.path,
+      size: input.size,
+      type: input.type,
+      encryptedMeta: input.encryptedMeta,
+      passwordHash: input.passwordHash,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      // Even an empty file is sent as one (empty) chunk
+      totalChunks: Math.max(1, Math.ceil(input.size / UPLOAD_CHUNK_SIZE)),
+      expiry: input.expiry,
+      chunkChecksums: {},
+      createdAt: Date.now(),
+    };
+
+    await fs.mkdir(this.sessionDir(id), { recursive: true });
+    // Chunk digests are kept in files of their own, see checksumPath()
+    await fs.writeFile(path.join(this.sessionDir(id), 'session.json'), JSON.stringify({ ...session, chunkChecksums: undefined }));
+    return session;
+  }
+
+  // Declared sizes of the open sessions, in total and of one owner's
+  async getStagedUsage(ownerId: string): Promise<StagedUsage> {
+    await this.ready;
+    const usage = { totalBytes: 0, ownerBytes: 0, ownerSessions: 0 };
+    for (const entry of await fs.readdir(this.directory)) {
+      const session = await fs.readFile(path.join(this.sessionDir(entry), 'session.json'), 'utf8')
+        .then(json => JSON.parse(json) as UploadSession)
+        .catch(() => undefined); // removed in the meantime
+      if (!session) continue;
+      usage.totalBytes += session.size;
+      if (session.ownerId === ownerId) {
+        usage.ownerBytes += session.size;
+        usage.ownerSessions++;
+      }
+    }
+    return usage;
+  }
+
+  async get(id: string): Promise<UploadSession | undefined> {
+    if (!SAFE_ID.test(id)) return undefined;
+    await this.ready;
+
+    try {
+      const dir = this.sessionDir(id);
+      const info = JSON.parse(await fs.readFile(path.join(dir, 'session.json'), 'utf8'));
+      const chunkChecksums: Record<number, string> = {};
+      for (const entry of await fs.readdir(dir)) {
+        if (entry.endsWith('.sha256')) {
+          chunkChecksums[parseInt(entry, 10)] = await fs.readFile(path.join(dir, entry), 'utf8');
+        }
+      }
+      return { ...info, chunkChecksums } as UploadSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async writeChunk(session: UploadSession, index: number, data: Buffer, expectedChecksum: string | null) {
+    if (this.completing.has(session.id)) {
+      throw new UploadError('Upload is being completed', 409);
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new UploadError(`Chunk index ${index} is out of range`, 416);
+    }
+
+    const expectedLength = Math.min(session.chunkSize, session.size - index * session.chunkSize);
+    if (data.length !== expectedLength) {
+      throw new UploadError(`Chunk ${index} must be ${expectedLength} bytes, got ${data.length}`, 400);
+    }
+
+    const checksum = sha256Hex(data);
+    if (expectedChecksum && expectedChecksum.toLowerCase() !== checksum) {
+      throw new UploadError(`Checksum mismatch for chunk ${index}`, 422);
+    }
+
+    // The digest is written last, so a chunk only counts as received once fully on disk
+    await fs.writeFile(this.chunkPath(session.id, index), data);
+    await fs.writeFile(this.checksumPath(session.id, index), checksum);
+    session.chunkChecksums[index] = checksum;
+    return session;
+  }
+
+  // Runs `complete` for the session unless another request already is, so the
+  // file is only ever added once and no chunk changes while it's assembled
+  async complete<T>(session: UploadSession, complete: () => Promise<T>) {
+    if (this.completing.has(session.id)) {
+      throw new UploadError('Upload is already being completed', 409);
+    }
+    this.completing.add(session.id);
+    try {
+      // An earlier request may have completed it while this one was looking it up
+      if (!(await this.get(session.id))) {
+        throw new UploadError('Upload session not found', 404);
+      }
+      return await complete();
+    } finally {
+      this.completing.delete(session.id);
+    }
+  }
+
+  // Verifies that every chunk arrived and matches `checksum`, then returns the
+  // file bytes as a stream that reads the staged chunks one after another
+  async assemble(session: UploadSession, checksum: string | null) {
+    const missing = Array.from({ length: session.totalChunks }, (_, index) => index)
+      .filter(index => !session.chunkChecksums[index]);
+    if (missing.length > 0) {
+      throw new UploadError(`Missing chunks: ${missing.join(', ')}`, 409);
+    }
+
+    const chunkDigests = Array.from({ length: session.totalChunks }, (_, index) => session.chunkChecksums[index]);
+    if (checksum && checksum.toLowerCase() !== sha256Hex(chunkDigests.join(''))) {
+      throw new UploadError('Checksum mismatch for uploaded file', 422);
+    }
+
+    const chunkPaths = chunkDigests.map((_, index) => this.chunkPath(session.id, index));
+    return Readable.from((async function* () {
+      for (const chunkPath of chunkPaths) {
+        yield* createReadStream(chunkPath);
+      }
+    })());
+  }
+
+  // The first and the last chunk, for sniffing the file's type without reading
+  // all of it (see lib/contentType.ts). A zip lists its entries at the end.
+  async readSample(session: UploadSession) {
+    const first = await fs.readFile(this.chunkPath(session.id, 0));
+    if (session.totalChunks === 1) return first;
+    return Buffer.concat([first, await fs.readFile(this.chunkPath(session.id, session.totalChunks - 1))]);
+  }
+
+  async remove(id: string) {
+    if (!SAFE_ID.test(id)) return;
+    await fs.rm(this.sessionDir(id), { recursive: true, force: true });
+  }
+
+  private async removeStale() {
+    const entries = await fs.readdir(this.directory);
+    const now = Date.now();
+    await Promise.all(entries.map(async entry => {
+      // The directory's mtime changes whenever a chunk arrives
+      const stats = await fs.stat(path.join(this.directory, entry)).catch(() => undefined);
+      if (stats && now - stats.mtimeMs > SESSION_TTL_MS) {
+        await this.remove(entry);
+      }
+    }));
+  }
+}
+
+const globalForUploads = globalThis as unknown as { uploadSessions?: UploadSessionStore };
+
+export const uploadSessions = globalForUploads.uploadSessions ??
+  new UploadSessionStore(process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'au-share-uploads'));
+globalForUploads.uploadSessions = uploadSessions;
@@ -0,0 +1,51 @@
+// Browser helper that grabs a poster frame from a local video file, so the
+// server can store a thumbnail for it (see lib/thumbnails.ts). Only formats
+// the browser can play work; anything else just has no poster.
+
+// Longest side of the captured frame; the server resizes it to the thumbnail size
+const POSTER_SIZE = 800;
+// Seek a little into the video, since the very first frame is often black
+const POSTER_TIME_SECONDS = 1;
+// Give up on files the browser can't load in time
+const POSTER_TIMEOUT_MS = 10 * 1000;
+
+export async function captureVideoPoster(file: File): Promise<Blob | null> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timed out')), POSTER_TIMEOUT_MS);
+      video.onloadedmetadata = () => {
+        video.currentTime = Math.min(POSTER_TIME_SECONDS, video.duration / 2 || 0);
+      };
+      video.onseeked = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      video.onerror = () => {
+        clearTimeout(timeout);
+        reject(video.error);
+      };
+      video.src = url;
+    });
+
+    if (!video.videoWidth || !video.videoHeight) return null;
+    const scale = Math.min(1, POSTER_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch {
+    return null;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,131 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { AuditEvent, AuditEventType } from '@/lib/eventLog';
+
+// Outgoing webhooks, configured from the environment:
+//   WEBHOOKS - JSON array of { "url", "events"?, "rooms"?, "secret"? }, e.g.
+//              [{ "url": "http://localhost:4000/hook", "events": ["file.*"], "secret": "s3cret" }]
+// `events` takes event types (see lib/eventLog.ts) or `file.*` / `*`, and
+// defaults to every event; `rooms` limits a webhook to those rooms.
+//
+// Every event of the audit log is POSTed as JSON to each matching webhook.
+// With a secret, the request carries `X-AU-Signature: sha256=<hex>`, an HMAC
+// of `<X-AU-Timestamp>.<body>` (see signWebhookPayload). Failed deliveries
+// (network errors, 429 and 5xx answers) are retried with growing delays;
+// pending retries don't survive a restart.
+
+const WebhookConfigSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  events: z.array(z.string()).default(['*']),
+  rooms: z.array(z.string()).nullable().default(null),
+  secret: z.string().min(1).nullable().default(null),
+});
+
+export type WebhookConfig = z.infer<typeof WebhookConfigSchema>;
+
+// Delays before the 2nd, 3rd, ... attempt
+const RETRY_DELAYS_MS = [1000, 5000, 30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000];
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export function readWebhooks(env: Record<string, string | undefined> = process.env): WebhookConfig[] {
+  const value = env.WEBHOOKS?.trim();
+  if (!value) return [];
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    throw new Error('Invalid WEBHOOKS (expected a JSON array)');
+  }
+  const result = z.array(WebhookConfigSchema).safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid WEBHOOKS: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+export function matchesEvent(webhook: WebhookConfig, event: AuditEvent) {
+  if (webhook.rooms && !webhook.rooms.includes(event.roomId)) return false;
+  return webhook.events.some(pattern => matchesType(pattern, event.type));
+}
+
+function matchesType(pattern: string, type: AuditEventType) {
+  if (pattern === '*' || pattern === type) return true;
+  return pattern.endsWith('.*') && type.startsWith(pattern.slice(0, -1));
+}
+
+// Receivers recompute this with their copy of the secret and compare
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string) {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+class WebhookDispatcher {
+  constructor(private webhooks: WebhookConfig[]) {}
+
+  // Fire and forget - deliveries never hold up the change that caused them
+  dispatch(event: AuditEvent) {
+    const body = JSON.stringify(event);
+    this.webhooks
+      .filter(webhook => matchesEvent(webhook, event))
+      .forEach(webhook => this.deliver(webhook, event, body, 1));
+  }
+
+  private async deliver(webhook: WebhookConfig, event: AuditEvent, body: string, attempt: number) {
+    let failure: string | null;
+    try {
+      failure = await this.send(webhook, event, body, attempt);
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+    if (failure === null) return;
+
+    const delay = RETRY_DELAYS_MS[attempt - 1];
+    if (delay === undefined) {
+      console.error(`Error delivering event ${event.id} to ${webhook.url}: ${failure}, giving up after ${attempt} attempts`);
+      return;
+    }
+    const retry = setTimeout(() => this.deliver(webhook, event, body, attempt + 1), delay);
+    retry.unref?.();
+  }
+
+  // Returns why the delivery should be retried, or null when it's done
+  private async send(webhook: WebhookConfig, event: AuditEvent, body: string, attempt: number) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'au-share-webhooks',
+      'X-AU-Event': event.type,
+      'X-AU-Delivery': String(event.id),
+      'X-AU-Attempt': String(attempt),
+      'X-AU-Timestamp': timestamp,
+    };
+    if (webhook.secret) {
+      headers['X-AU-Signature'] = signWebhookPayload(webhook.secret, timestamp, body);
+    }
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    if (response.ok) return null;
+    // Other client errors won't go away by sending the same request again
+    if (response.status === 429 || response.status >= 500) return `status ${response.status}`;
+    console.error(`Error delivering event ${event.id} to ${webhook.url}: status ${response.status}`);
+    return null;
+  }
+}
+
+// Singleton, kept on globalThis like the file store
+const globalForWebhooks = globalThis as unknown as { webhooks?: WebhookDispatcher };
+
+export const webhooks = globalForWebhooks.webhooks ?? new WebhookDispatcher(readWebhooks());
+globalForWebhooks.webhooks = webhooks;
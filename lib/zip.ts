@@ -0,0 +1,338 @@
+import { crc32, inflateRawSync } from 'zlib';
+
+// Minimal streaming ZIP writer. Entries are stored uncompressed (most shared
+// files are media that doesn't compress anyway), which means every size and
+// checksum is known before an entry is written and no data descriptors are needed.
+// ZIP64 records are added as soon as a size or offset no longer fits in 32 bits.
+// A small reader for listing uploaded archives is at the end.
+
+export interface ZipEntry {
+  name: string;
+  modifiedAt: number;
+  data: Buffer;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const UTF8_FLAG = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+// MS-DOS date and time, in local time like other zip tools
+function dosDateTime(timestamp: number) {
+  const date = new Date(timestamp);
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function zip64Extra(values: number[]) {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+  return extra;
+}
+
+function localHeader(record: CentralRecord) {
+  const zip64 = record.size >= MAX_32;
+  const extra = zip64 ? zip64Extra([record.size, record.size]) : Buffer.alloc(0);
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(0, 8); // stored
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(zip64 ? MAX_32 : record.size, 18);
+  header.writeUInt32LE(zip64 ? MAX_32 : record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function centralHeader(record: CentralRecord) {
+  // Only the fields that overflow go into the ZIP64 extra field, in this order
+  const overflow: number[] = [];
+  if (record.size >= MAX_32) overflow.push(record.size, record.size);
+  if (record.offset >= MAX_32) overflow.push(record.offset);
+  const extra = overflow.length > 0 ? zip64Extra(overflow) : Buffer.alloc(0);
+  const version = overflow.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(version, 4);
+  header.writeUInt16LE(version, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(Math.min(record.size, MAX_32), 20);
+  header.writeUInt32LE(Math.min(record.size, MAX_32), 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  // comment length, disk number, attributes: all zero
+  header.writeUInt32LE(Math.min(record.offset, MAX_32), 42);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number) {
+  const parts: Buffer[] = [];
+
+  if (count >= MAX_16 || size >= MAX_32 || offset >= MAX_32) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4); // size of the rest of this record
+    record.writeUInt16LE(VERSION_ZIP64, 12);
+    record.writeUInt16LE(VERSION_ZIP64, 14);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(size), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + size), 8);
+    locator.writeUInt32LE(1, 16); // total number of disks
+
+    parts.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, MAX_16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_16), 10);
+  end.writeUInt32LE(Math.min(size, MAX_32), 12);
+  end.writeUInt32LE(Math.min(offset, MAX_32), 16);
+  parts.push(end);
+
+  return Buffer.concat(parts);
+}
+
+// Zip tools treat "/" as a directory separator - keep relative paths, but
+// nothing that could escape the extraction directory
+export function sanitizeZipPath(name: string) {
+  const segments = name.replace(/\\/g, '/').split('/')
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+  return segments.join('/') || 'file';
+}
+
+// Appends " (1)", " (2)", ... before the extension to names that were already used
+export function uniqueZipPath(name: string, used: Set<string>) {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = dot > name.lastIndexOf('/') + 1 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  for (let counter = 1; used.has(candidate.toLowerCase()); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function* zipChunks(entries: AsyncIterable<ZipEntry>) {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const record: CentralRecord = {
+      name: Buffer.from(entry.name, 'utf8'),
+      crc: crc32(entry.data),
+      size: entry.data.length,
+      offset,
+      ...dosDateTime(entry.modifiedAt),
+    };
+    const header = localHeader(record);
+    yield header;
+    yield entry.data;
+    offset += header.length + entry.data.length;
+    records.push(record);
+  }
+
+  const central = Buffer.concat(records.map(centralHeader));
+  yield central;
+  yield endOfCentralDirectory(records.length, central.length, offset);
+}
+
+// Streams an archive of `entries`, which are pulled one at a time as the
+// client reads - only the entry being written has to be in memory
+export function createZipStream(entries: AsyncIterable<ZipEntry>) {
+  const chunks = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// Reading - just enough to list an uploaded archive and pull out small entries
+// (e.g. the manifest of an APK, see lib/apk.ts)
+
+export interface ZipListingEntry {
+  name: string;
+  size: number;
+  compressedSize: number;
+  modifiedAt: number;
+  directory: boolean;
+}
+
+// What /api/files/[id]/entries returns
+export interface ArchiveListing {
+  entries: ZipListingEntry[];
+  totalEntries: number;
+  truncated: boolean;
+}
+
+export interface ZipDirectoryEntry extends ZipListingEntry {
+  method: number;
+  localHeaderOffset: number;
+}
+
+// Thrown for data that isn't a (supported) ZIP archive
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+// The end record is followed by a comment of up to 64 KB
+const MAX_END_SEARCH = END_OF_CENTRAL_DIRECTORY_SIZE + MAX_16;
+
+function fromDosDateTime(time: number, date: number) {
+  return new Date(
+    (date >> 9) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+    time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+  ).getTime();
+}
+
+function findEndOfCentralDirectory(data: Buffer) {
+  const stop = Math.max(0, data.length - MAX_END_SEARCH);
+  for (let offset = data.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= stop; offset--) {
+    if (data.readUInt32LE(offset) === 0x06054b50) return offset;
+  }
+  throw new ZipFormatError('End of central directory not found');
+}
+
+function readBigUInt64(data: Buffer, offset: number) {
+  const value = data.readBigUInt64LE(offset);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new ZipFormatError('Archive too large');
+  return Number(value);
+}
+
+// Reads the central directory. Sizes and offsets that overflowed into a ZIP64
+// extra field are taken from there.
+export function readZipDirectory(data: Buffer): ZipDirectoryEntry[] {
+  if (data.length < END_OF_CENTRAL_DIRECTORY_SIZE) throw new ZipFormatError('Too short for a ZIP archive');
+
+  try {
+    const end = findEndOfCentralDirectory(data);
+    let count = data.readUInt16LE(end + 10);
+    let offset = data.readUInt32LE(end + 16);
+
+    if (count === MAX_16 || offset === MAX_32) {
+      const locator = end - 20;
+      if (locator < 0 || data.readUInt32LE(locator) !== 0x07064b50) throw new ZipFormatError('ZIP64 locator not found');
+      const record = readBigUInt64(data, locator + 8);
+      if (data.readUInt32LE(record) !== 0x06064b50) throw new ZipFormatError('ZIP64 end record not found');
+      count = readBigUInt64(data, record + 32);
+      offset = readBigUInt64(data, record + 48);
+    }
+
+    const entries: ZipDirectoryEntry[] = [];
+    for (let index = 0; index < count; index++) {
+      if (data.readUInt32LE(offset) !== 0x02014b50) throw new ZipFormatError('Corrupt central directory');
+      const flags = data.readUInt16LE(offset + 8);
+      const nameLength = data.readUInt16LE(offset + 28);
+      const extraLength = data.readUInt16LE(offset + 30);
+      const commentLength = data.readUInt16LE(offset + 32);
+      const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength);
+      // Without the UTF-8 flag names are in the DOS code page; latin1 is close enough for a listing
+      const name = nameBytes.toString(flags & UTF8_FLAG ? 'utf8' : 'latin1');
+
+      let compressedSize = data.readUInt32LE(offset + 20);
+      let size = data.readUInt32LE(offset + 24);
+      let localHeaderOffset = data.readUInt32LE(offset + 42);
+
+      const extraStart = offset + 46 + nameLength;
+      for (let position = extraStart; position + 4 <= extraStart + extraLength;) {
+        const id = data.readUInt16LE(position);
+        const length = data.readUInt16LE(position + 2);
+        if (id === 0x0001) {
+          let field = position + 4;
+          if (size === MAX_32) { size = readBigUInt64(data, field); field += 8; }
+          if (compressedSize === MAX_32) { compressedSize = readBigUInt64(data, field); field += 8; }
+          if (localHeaderOffset === MAX_32) { localHeaderOffset = readBigUInt64(data, field); }
+        }
+        position += 4 + length;
+      }
+
+      entries.push({
+        name,
+        size,
+        compressedSize,
+        modifiedAt: fromDosDateTime(data.readUInt16LE(offset + 12), data.readUInt16LE(offset + 14)),
+        directory: name.endsWith('/'),
+        method: data.readUInt16LE(offset + 10),
+        localHeaderOffset,
+      });
+      offset = extraStart + extraLength + commentLength;
+    }
+    return entries;
+  } catch (error) {
+    // Offsets pointing past the end of the data
+    if (error instanceof RangeError) throw new ZipFormatError('Truncated archive');
+    throw error;
+  }
+}
+
+// Returns the uncompressed bytes of a stored or deflated entry.
+// Refuses entries larger than `maxSize` rather than inflating them.
+export function readZipEntry(data: Buffer, entry: ZipDirectoryEntry, maxSize: number) {
+  if (entry.size > maxSize) throw new ZipFormatError(`${entry.name} is too large`);
+
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.length || data.readUInt32LE(header) !== 0x04034b50) {
+    throw new ZipFormatError(`Local header of ${entry.name} not found`);
+  }
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return compressed;
+    case 8:
+      try {
+        return inflateRawSync(compressed, { maxOutputLength: Math.max(maxSize, 1) });
+      } catch {
+        throw new ZipFormatError(`${entry.name} could not be decompressed`);
+      }
+    default:
+      throw new ZipFormatError(`${entry.name} uses an unsupported compression method`);
+  }
+}
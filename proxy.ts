@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OWNER_COOKIE, OWNER_COOKIE_MAX_AGE } from '@/lib/auth';
+import { DEVICE_COOKIE, DEVICE_COOKIE_MAX_AGE, generateDeviceName } from '@/lib/devices';
+
+function generateOwnerToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Issues the owner cookie, and the device name cookie (see lib/devices.ts), on a
+// visitor's first request. The cookies are also added to the forwarded request
+// so the route handling that first request already sees them.
+export function proxy(request: NextRequest) {
+  const needsOwner = !request.cookies.has(OWNER_COOKIE);
+  const needsDevice = !request.cookies.has(DEVICE_COOKIE);
+  if (!needsOwner && !needsDevice) {
+    return NextResponse.next();
+  }
+
+  const token = needsOwner ? generateOwnerToken() : null;
+  const deviceName = needsDevice ? generateDeviceName() : null;
+  if (token) request.cookies.set(OWNER_COOKIE, token);
+  if (deviceName) request.cookies.set(DEVICE_COOKIE, deviceName);
+
+  const response = NextResponse.next({
+    request: { headers: request.headers },
+  });
+  const cookieOptions = {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+  };
+  if (token) {
+    response.cookies.set(OWNER_COOKIE, token, { ...cookieOptions, maxAge: OWNER_COOKIE_MAX_AGE });
+  }
+  if (deviceName) {
+    response.cookies.set(DEVICE_COOKIE, deviceName, { ...cookieOptions, maxAge: DEVICE_COOKIE_MAX_AGE });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};